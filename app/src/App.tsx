@@ -1,9 +1,14 @@
 import { Dropdown, FontIcon, IDropdownOption, PartialTheme, ThemeProvider, Toggle, TooltipHost } from '@fluentui/react';
 import { useId } from '@fluentui/react-hooks';
-import React, { useState, MouseEvent, FormEvent, useEffect } from 'react';
+import React, { useState, MouseEvent, FormEvent, useEffect, useMemo } from 'react';
 import styled from 'styled-components';
+import { defaultAppStrings, IAppStrings } from './AppStrings';
+import { getContentFormat, getContentFormats } from './editor/ContentFormat';
+import { IMentionItem } from './editor/Mention';
+import { formatString, ITextEditorStrings } from './editor/Strings';
 import { TextEditor } from './editor/TextEditor';
-import { DarkPalette, DefaultComponentStyles, DefaultFontStyle, Fonts, Palette } from './Theme';
+import { configureTextStyles } from './editor/TextStyles';
+import { DarkPalette, DefaultComponentStyles, DefaultFontStyle, Fonts, getTextStylePaletteWithThemeColors, Palette } from './Theme';
 
 const AppContainer = styled.div`
     display: flex;
@@ -60,7 +65,41 @@ const MarkdownPreview = styled.textarea<IMarkdownPreview>`
     background-color: ${(props) => props.backgroundColor};
 `;
 
-const App = () => {
+/** Demo items that can be mentioned with `@` and `#`. */
+const demoMentionItems: { [trigger: string]: IMentionItem[] } = {
+    '@': [
+        { id: 'ada', name: 'Ada', secondaryText: 'ada@example.com', url: 'https://example.com/users/ada' },
+        { id: 'grace', name: 'Grace', secondaryText: 'grace@example.com', url: 'https://example.com/users/grace' },
+        { id: 'linus', name: 'Linus', secondaryText: 'linus@example.com', url: 'https://example.com/users/linus' },
+    ],
+    '#': [
+        { id: '1', name: '1', secondaryText: 'Add mentions', url: 'https://example.com/issues/1' },
+        { id: '2', name: '2', secondaryText: 'Add find and replace', url: 'https://example.com/issues/2' },
+    ],
+};
+
+/** The characters that start a mention in the demo. */
+const demoMentionTriggers = ['@', '#'];
+
+/**
+ * Search the demo items that can be mentioned.
+ * @param {string} query The text typed after the trigger.
+ * @param {string} trigger The typed trigger.
+ * @returns {Promise<IMentionItem[]>} The matching items.
+ */
+const searchDemoMentions = (query: string, trigger: string): Promise<IMentionItem[]> => {
+    const lowerCaseQuery = query.toLowerCase();
+    return Promise.resolve((demoMentionItems[trigger] ?? []).filter((item) => item.name.toLowerCase().startsWith(lowerCaseQuery)));
+};
+
+export interface IAppProps {
+    /** The texts of the app that replace the built in english texts. */
+    strings?: Partial<IAppStrings>;
+    /** The texts of the editor that replace the built in english texts. */
+    editorStrings?: Partial<ITextEditorStrings>;
+}
+
+const App = (props: IAppProps) => {
     /** The key to sore and load editor content from local storage. */
     const localStorageContentKey = 'stored-editor-content';
     /** The key to store and load the stored content type from the local storage. */
@@ -69,12 +108,23 @@ const App = () => {
     /** The state of the current string content value. */
     const [stringContent, setStringContent] = useState<string>();
     /** The currently selected content type key. */
-    const [selectedContentType, setSelectedContentType] = useState<'markdown' | 'html'>('markdown');
+    const [selectedContentType, setSelectedContentType] = useState<string>('markdown');
     /** Whether the dark mode is enabled or not. */
     const [isDarkModeEnabled, setIsDarkModeEnabled] = useState<boolean>(false);
+    /** Whether the text direction is right to left or not. */
+    const [isRightToLeftEnabled, setIsRightToLeftEnabled] = useState<boolean>(false);
 
     /** The unique identifier for the dark mode toggle tooltip. */
     const darkModeToggleTooltipId = useId();
+    /** The unique identifier for the right to left toggle tooltip. */
+    const rightToLeftToggleTooltipId = useId();
+
+    /** The texts of the app, the built in english texts overridden by the passed ones. */
+    const strings = useMemo(() => ({ ...defaultAppStrings, ...props.strings }), [props.strings]);
+
+    // Offer the theme colors in the text style pickers of the editor, named in the language of the app.
+    // Configured while rendering, so that the editor already renders with them, but only again when the texts change.
+    useMemo(() => configureTextStyles(getTextStylePaletteWithThemeColors(strings)), [strings]);
 
     // Build the fluent ui theme.
     const theme: PartialTheme = {
@@ -82,20 +132,18 @@ const App = () => {
         defaultFontStyle: DefaultFontStyle,
         components: DefaultComponentStyles(Palette),
         fonts: Fonts,
+        rtl: isRightToLeftEnabled,
     };
 
     /** Options for the content type dropdown. */
-    const contentTypeDropdownOptions: IDropdownOption[] = [
-        { key: 'markdown', text: 'Markdown' },
-        { key: 'html', text: 'HTML' },
-    ];
+    const contentTypeDropdownOptions: IDropdownOption[] = getContentFormats().map((contentFormat) => ({ key: contentFormat.id, text: contentFormat.displayName }));
 
     /** Load possible stored content from local storage initially. */
     useEffect(() => {
         const storedContent = localStorage.getItem(localStorageContentKey);
         if (storedContent !== undefined && storedContent !== null) {
             const storedContentType = localStorage.getItem(localStorageContentTypeKey);
-            if (storedContentType === 'markdown' || storedContentType === 'html') {
+            if (storedContentType && getContentFormat(storedContentType)) {
                 setSelectedContentType(storedContentType);
                 setStringContent(storedContent);
                 return;
@@ -116,8 +164,17 @@ const App = () => {
         <ThemeProvider theme={theme}>
             <AppContainer>
                 <HeaderContainer>
+                    <FontIcon iconName={isRightToLeftEnabled ? 'BidiRtl' : 'BidiLtr'} />
+                    <TooltipHost id={rightToLeftToggleTooltipId} content={strings.rightToLeftTooltip}>
+                        <Toggle
+                            aria-describedby={rightToLeftToggleTooltipId}
+                            styles={{ root: { marginBottom: 'unset', marginLeft: 10, marginRight: 25 } }}
+                            checked={isRightToLeftEnabled}
+                            onChange={(_: MouseEvent, checked?: boolean | undefined) => setIsRightToLeftEnabled(!!checked)}
+                        />
+                    </TooltipHost>
                     <FontIcon iconName={isDarkModeEnabled ? 'ClearNight' : 'Sunny'} />
-                    <TooltipHost id={darkModeToggleTooltipId} content="Activate / Deactivate the dark mode.">
+                    <TooltipHost id={darkModeToggleTooltipId} content={strings.darkModeTooltip}>
                         <Toggle
                             aria-describedby={darkModeToggleTooltipId}
                             styles={{ root: { marginBottom: 'unset', marginLeft: 10 } }}
@@ -144,18 +201,23 @@ const App = () => {
                                         if (!option) {
                                             return;
                                         }
-                                        if (option.key === 'markdown' || option.key === 'html') {
-                                            setSelectedContentType(option.key);
+                                        if (getContentFormat(option.key.toString())) {
+                                            setSelectedContentType(option.key.toString());
                                         }
                                     }}
                                 />
-                                <h2>Editor</h2>
+                                <h2>{strings.editorHeadline}</h2>
                             </AppHeadlineContainer>
                             <SingleContentWrapper>
                                 <TextEditor
-                                    initialContent={stringContent}
+                                    value={stringContent}
                                     contentType={selectedContentType}
                                     handleContentUpdate={(newContent: string) => setStringContent(newContent)}
+                                    onSearchMentions={searchDemoMentions}
+                                    mentionTriggers={demoMentionTriggers}
+                                    showStatusBar
+                                    strings={props.editorStrings}
+                                    dir={isRightToLeftEnabled ? 'rtl' : 'ltr'}
                                 />
                             </SingleContentWrapper>
                         </ContentSectionContainer>
@@ -163,7 +225,7 @@ const App = () => {
                     {stringContent !== undefined && stringContent !== null && (
                         <ContentSectionContainer>
                             <AppHeadlineContainer>
-                                <h2>Generated {selectedContentType === 'markdown' ? 'Markdown' : 'HTML'}</h2>
+                                <h2>{formatString(strings.generatedHeadline, { format: getContentFormat(selectedContentType)?.displayName ?? selectedContentType })}</h2>
                             </AppHeadlineContainer>
                             <SingleContentWrapper>
                                 <MarkdownPreview color={theme.palette?.black ?? 'unset'} backgroundColor={theme.palette?.white ?? 'unset'} value={stringContent} readOnly />
@@ -0,0 +1,24 @@
+/**
+ * All texts the demo app displays around the editor. Texts with placeholders in curly braces, e.g. `{format}`, are formatted with `formatString`.
+ */
+export interface IAppStrings {
+    /** Tooltip of the dark mode toggle. */
+    darkModeTooltip: string;
+    /** Tooltip of the right to left toggle. */
+    rightToLeftTooltip: string;
+    /** Headline of the editor section. */
+    editorHeadline: string;
+    /** Headline of the generated content section. Placeholder: `{format}`, the name of the content format. */
+    generatedHeadline: string;
+    /** Name of the theme colors the text style pickers of the editor offer. */
+    themeColor: string;
+}
+
+/** The built in english texts of the demo app. */
+export const defaultAppStrings: IAppStrings = {
+    darkModeTooltip: 'Activate / Deactivate the dark mode.',
+    rightToLeftTooltip: 'Activate / Deactivate the right to left text direction.',
+    editorHeadline: 'Editor',
+    generatedHeadline: 'Generated {format}',
+    themeColor: 'Theme',
+};
@@ -1,4 +1,6 @@
 import { ComponentsStyles, IFontStyles, IPalette, IRawStyle } from '@fluentui/react';
+import { getTextStylePalette, ITextStylePalette } from './editor/TextStyles';
+import { IAppStrings } from './AppStrings';
 
 /**
  * The color palette for the theme.
@@ -63,6 +65,19 @@ export const DarkPalette: Partial<IPalette> = {
     green: '#124c00',
 };
 
+/** The built in colors of the text styles of the editor. */
+const editorTextStylePalette = getTextStylePalette();
+
+/**
+ * Get the colors of the text styles of the editor, extended by the theme colors of the palette and the dark palette.
+ * @param {IAppStrings} strings The texts of the app, containing the name of the theme colors.
+ * @returns {Partial<ITextStylePalette>} The colors of the text styles.
+ */
+export const getTextStylePaletteWithThemeColors = (strings: IAppStrings): Partial<ITextStylePalette> => ({
+    textColors: [{ label: strings.themeColor, color: Palette.themePrimary as string, darkColor: DarkPalette.themeTertiary }, ...editorTextStylePalette.textColors],
+    highlightColors: [{ label: strings.themeColor, color: Palette.themeLight as string, darkColor: DarkPalette.themeDarker }, ...editorTextStylePalette.highlightColors],
+});
+
 /**
  * The fonts for the theme.
  */
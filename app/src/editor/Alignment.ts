@@ -0,0 +1,210 @@
+import { mergeStyles } from '@fluentui/react';
+import { ContentBlock, genKey, RawDraftContentBlock, RawDraftContentState } from 'draft-js';
+import { RenderConfig } from 'draft-js-export-html';
+
+/** The horizontal alignment of the text of a block. */
+export type TextAlignment = 'left' | 'center' | 'right' | 'justify';
+
+/** The markup alignments are exported as to html. `style` creates `style="text-align: …"` attributes, `class` adds the configured class names. */
+export type AlignmentHtmlExportFormat = 'style' | 'class';
+
+/**
+ * The way alignments degrade when exporting to markdown, which has no syntax for them.
+ * `drop` removes them, `html` wraps aligned blocks in `<div align="…">` elements that most markdown renderers display and the markdown import reads back.
+ */
+export type AlignmentMarkdownExportFormat = 'drop' | 'html';
+
+/** Options of the alignment import and export. */
+export interface IAlignmentOptions {
+    /** The markup alignments are exported as to html. Both markups are read when importing html. */
+    htmlExportFormat: AlignmentHtmlExportFormat;
+    /** The class names of the alignments used by the `class` html export format. */
+    htmlClassNames: { [alignment in TextAlignment]: string };
+    /** The way alignments degrade when exporting to markdown. */
+    markdownExportFormat: AlignmentMarkdownExportFormat;
+}
+
+/** The block data stored for an aligned block. */
+export interface IAlignmentData {
+    /** The alignment of the text of the block. Blocks without alignment follow the text direction. */
+    textAlign?: TextAlignment;
+}
+
+/** All alignments in display order. */
+export const textAlignments: TextAlignment[] = ['left', 'center', 'right', 'justify'];
+
+/** The current alignment options. */
+let alignmentOptions: IAlignmentOptions = {
+    htmlExportFormat: 'style',
+    htmlClassNames: { left: 'text-align-left', center: 'text-align-center', right: 'text-align-right', justify: 'text-align-justify' },
+    markdownExportFormat: 'drop',
+};
+
+/** Matches the markdown line that starts blocks of an alignment, exported with the `html` markdown export format. */
+const markdownAlignmentStartRegex = /^<div align="(left|center|right|justify)">$/;
+
+/** The markdown line that ends blocks of an alignment. */
+const markdownAlignmentEnd = '</div>';
+
+/**
+ * Custom styles to align blocks. The text of draft js blocks is aligned by an inner element, which is targeted as well.
+ */
+const alignmentStyles: { [alignment in TextAlignment]: string } = {
+    left: mergeStyles({ textAlign: 'left', selectors: { '& .public-DraftStyleDefault-block': { textAlign: 'left' } } }),
+    center: mergeStyles({ textAlign: 'center', selectors: { '& .public-DraftStyleDefault-block': { textAlign: 'center' } } }),
+    right: mergeStyles({ textAlign: 'right', selectors: { '& .public-DraftStyleDefault-block': { textAlign: 'right' } } }),
+    justify: mergeStyles({ textAlign: 'justify', selectors: { '& .public-DraftStyleDefault-block': { textAlign: 'justify' } } }),
+};
+
+/**
+ * Override parts of the alignment options.
+ * @param {Partial<IAlignmentOptions>} options The options to override.
+ */
+export const configureAlignment = (options: Partial<IAlignmentOptions>) => {
+    alignmentOptions = { ...alignmentOptions, ...options };
+};
+
+/**
+ * Get the current alignment options.
+ * @returns {IAlignmentOptions} The current alignment options.
+ */
+export const getAlignmentOptions = (): IAlignmentOptions => {
+    return alignmentOptions;
+};
+
+/**
+ * Check whether a value is a supported alignment.
+ * @param {unknown} value The value to check, e.g. the stored block data or an imported css value.
+ * @returns {TextAlignment | undefined} The alignment or undefined if the value is no supported alignment.
+ */
+const toTextAlignment = (value: unknown): TextAlignment | undefined => {
+    const alignment = typeof value === 'string' ? value.trim().toLowerCase() : undefined;
+    return textAlignments.find((textAlignment) => textAlignment === alignment);
+};
+
+/**
+ * Get the alignment of a block.
+ * @param {ContentBlock} block The block.
+ * @returns {TextAlignment | undefined} The alignment or undefined if the block follows the text direction.
+ */
+export const getBlockAlignment = (block: ContentBlock): TextAlignment | undefined => {
+    return toTextAlignment(block.getData().get('textAlign'));
+};
+
+/**
+ * Get the class name that aligns a block in the editor and the viewer.
+ * @param {ContentBlock} block The block to style.
+ * @returns {string | undefined} The class name or undefined if the block has no alignment.
+ */
+export const getAlignmentClassName = (block: ContentBlock): string | undefined => {
+    const alignment = getBlockAlignment(block);
+    return alignment ? alignmentStyles[alignment] : undefined;
+};
+
+/**
+ * Get the alignment of a html element from its `text-align` style, its `align` attribute or an alignment class name.
+ * @param {Element} element The html element.
+ * @returns {TextAlignment | undefined} The alignment or undefined if the element is not aligned.
+ */
+const getHtmlElementAlignment = (element: Element): TextAlignment | undefined => {
+    return (
+        toTextAlignment((element as HTMLElement).style?.textAlign) ??
+        toTextAlignment(element.getAttribute('align')) ??
+        textAlignments.find((alignment) => element.classList.contains(alignmentOptions.htmlClassNames[alignment]))
+    );
+};
+
+/**
+ * Get the alignment of an imported html element. Elements without alignment inherit the alignment of their parents.
+ * @param {Element} element The imported html element.
+ * @returns {IAlignmentData | undefined} The alignment data or undefined if neither the element nor its parents are aligned.
+ */
+export const getHtmlAlignmentData = (element: Element): IAlignmentData | undefined => {
+    for (let current: Element | null = element; current && current.tagName !== 'BODY'; current = current.parentElement) {
+        const alignment = getHtmlElementAlignment(current);
+        if (alignment) {
+            return { textAlign: alignment };
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Add the alignment of an exported block to the html render config of the block, using the configured html export format.
+ * @param {ContentBlock} block The exported block.
+ * @param {RenderConfig | undefined} renderConfig The render config of the block without alignment.
+ * @returns {RenderConfig | undefined} The render config including the alignment.
+ */
+export const addHtmlAlignment = (block: ContentBlock, renderConfig: RenderConfig | undefined): RenderConfig | undefined => {
+    const alignment = getBlockAlignment(block);
+    if (!alignment) {
+        return renderConfig;
+    }
+    if (alignmentOptions.htmlExportFormat === 'class') {
+        const className = [renderConfig?.attributes?.class, alignmentOptions.htmlClassNames[alignment]].filter((name) => !!name).join(' ');
+        return { ...renderConfig, attributes: { ...renderConfig?.attributes, class: className } };
+    }
+    return { ...renderConfig, style: { ...renderConfig?.style, textAlign: alignment } };
+};
+
+/**
+ * Wrap consecutive exported markdown blocks with the same alignment in `<div align="…">` elements, if the `html` markdown export format is configured.
+ * The markup is added as placeholder paragraphs, so that the markdown conversion leaves it untouched.
+ * @param {RawDraftContentBlock[]} blocks The raw blocks to export.
+ * @param {(markup: string) => string} createPlaceholder Create the placeholder text that is replaced with the markup after the conversion.
+ * @returns {RawDraftContentBlock[]} The blocks including the placeholder paragraphs.
+ */
+export const wrapAlignedMarkdownBlocks = (blocks: RawDraftContentBlock[], createPlaceholder: (markup: string) => string): RawDraftContentBlock[] => {
+    if (alignmentOptions.markdownExportFormat !== 'html') {
+        return blocks;
+    }
+    const wrappedBlocks: RawDraftContentBlock[] = [];
+    let currentAlignment: TextAlignment | undefined;
+    /**
+     * Add a placeholder paragraph for the given markup.
+     * @param {string} markup The markup of the placeholder.
+     */
+    const pushMarkup = (markup: string) => {
+        wrappedBlocks.push({ key: genKey(), type: 'unstyled', text: createPlaceholder(markup), depth: 0, inlineStyleRanges: [], entityRanges: [] });
+    };
+    blocks.forEach((block) => {
+        const alignment = toTextAlignment(block.data?.textAlign);
+        if (alignment !== currentAlignment) {
+            if (currentAlignment) {
+                pushMarkup(markdownAlignmentEnd);
+            }
+            if (alignment) {
+                pushMarkup(`<div align="${alignment}">`);
+            }
+            currentAlignment = alignment;
+        }
+        wrappedBlocks.push(block);
+    });
+    if (currentAlignment) {
+        pushMarkup(markdownAlignmentEnd);
+    }
+    return wrappedBlocks;
+};
+
+/**
+ * Align the imported markdown blocks that are wrapped in `<div align="…">` elements and remove the paragraphs of the wrapping markup.
+ * @param {RawDraftContentState} rawContent The raw content created from markdown.
+ * @returns {RawDraftContentState} The raw content with aligned blocks.
+ */
+export const alignWrappedMarkdownBlocks = (rawContent: RawDraftContentState): RawDraftContentState => {
+    const blocks: RawDraftContentBlock[] = [];
+    let currentAlignment: TextAlignment | undefined;
+    rawContent.blocks.forEach((block) => {
+        const startMatch = block.type === 'unstyled' ? block.text.trim().match(markdownAlignmentStartRegex) : null;
+        if (startMatch) {
+            currentAlignment = startMatch[1] as TextAlignment;
+            return;
+        }
+        if (currentAlignment && block.type === 'unstyled' && block.text.trim() === markdownAlignmentEnd) {
+            currentAlignment = undefined;
+            return;
+        }
+        blocks.push(currentAlignment ? { ...block, data: { ...block.data, textAlign: currentAlignment } } : block);
+    });
+    return { ...rawContent, blocks };
+};
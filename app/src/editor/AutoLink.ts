@@ -0,0 +1,140 @@
+import { ContentBlock, ContentState, EditorState, Modifier, SelectionState } from 'draft-js';
+import { defaultLinkData, ILinkData, linkEntityType } from './Link';
+import { isSafeUrl } from './Sanitizer';
+
+/** A link detected in plain text. */
+interface IDetectedLink {
+    /** The start offset of the link text. */
+    start: number;
+    /** The end offset of the link text. */
+    end: number;
+    /** The url the link text points to. */
+    url: string;
+}
+
+/** Matches urls starting with a scheme or www and e-mail addresses, without trailing punctuation. */
+const autoLinkRegex = /\b(?:(?:https?:\/\/|www\.)[^\s<>]*[^\s<>.,;:!?'")\]]|[\w.+-]+@[\w-]+(?:\.[\w-]+)+)/gi;
+
+/**
+ * Get the url a detected link text points to.
+ * @param {string} text The detected link text.
+ * @returns {string} The url, e.g. with a mailto scheme for e-mail addresses.
+ */
+const getAutoLinkUrl = (text: string): string => {
+    if (/^https?:\/\//i.test(text)) {
+        return text;
+    }
+    if (/^www\./i.test(text)) {
+        return `https://${text}`;
+    }
+    return `mailto:${text}`;
+};
+
+/**
+ * Find all urls and e-mail addresses in the given text.
+ * @param {string} text The text to search.
+ * @returns {IDetectedLink[]} The detected links.
+ */
+const findAutoLinks = (text: string): IDetectedLink[] => {
+    const links: IDetectedLink[] = [];
+    let match: RegExpExecArray | null;
+    autoLinkRegex.lastIndex = 0;
+    while ((match = autoLinkRegex.exec(text))) {
+        const url = getAutoLinkUrl(match[0]);
+        if (isSafeUrl(url)) {
+            links.push({ start: match.index, end: match.index + match[0].length, url });
+        }
+    }
+    return links;
+};
+
+/**
+ * Apply link entities to all detected links in a range of a block that are not part of an entity yet.
+ * @param {ContentState} contentState The content state to modify.
+ * @param {ContentBlock} block The block to search.
+ * @param {number} start The start offset of the range to search.
+ * @param {number} end The end offset of the range to search.
+ * @returns {ContentState} The content state with the applied links.
+ */
+const applyAutoLinks = (contentState: ContentState, block: ContentBlock, start: number, end: number): ContentState => {
+    if (block.getType() === 'code-block' || block.getType() === 'atomic') {
+        return contentState;
+    }
+    return findAutoLinks(block.getText().slice(start, end)).reduce((currentContentState, link) => {
+        const linkStart = start + link.start;
+        const linkEnd = start + link.end;
+        for (let offset = linkStart; offset < linkEnd; offset++) {
+            if (block.getEntityAt(offset)) {
+                return currentContentState;
+            }
+        }
+        const linkData: ILinkData = { ...defaultLinkData, url: link.url };
+        const contentStateWithEntity = currentContentState.createEntity(linkEntityType, 'MUTABLE', linkData);
+        const linkSelection = SelectionState.createEmpty(block.getKey()).merge({ anchorOffset: linkStart, focusOffset: linkEnd }) as SelectionState;
+        return Modifier.applyEntity(contentStateWithEntity, linkSelection, contentStateWithEntity.getLastCreatedEntityKey());
+    }, contentState);
+};
+
+/**
+ * Push the auto linked content as own undo step, keeping the selection of the editor.
+ * @param {EditorState} editorState The editor state before auto linking.
+ * @param {ContentState} contentState The auto linked content state.
+ * @returns {EditorState | undefined} The new editor state or undefined if nothing was linked.
+ */
+const pushAutoLinks = (editorState: EditorState, contentState: ContentState): EditorState | undefined => {
+    if (contentState === editorState.getCurrentContent()) {
+        return undefined;
+    }
+    const selection = editorState.getSelection();
+    const contentStateWithSelection = contentState.merge({ selectionBefore: selection, selectionAfter: selection }) as ContentState;
+    return EditorState.push(editorState, contentStateWithSelection, 'apply-entity');
+};
+
+/**
+ * Turn the url or e-mail address directly before the given offset into a link, e.g. after a space or a line break was typed.
+ * @param {EditorState} editorState The editor state to modify.
+ * @param {string} blockKey The key of the block containing the word.
+ * @param {number} offset The offset the word ends at.
+ * @returns {EditorState | undefined} The new editor state or undefined if nothing was linked.
+ */
+export const autoLinkWordBefore = (editorState: EditorState, blockKey: string, offset: number): EditorState | undefined => {
+    const contentState = editorState.getCurrentContent();
+    const block = contentState.getBlockForKey(blockKey);
+    if (!block) {
+        return undefined;
+    }
+    const text = block.getText().slice(0, offset);
+    const wordStart = text.search(/\S+$/);
+    if (wordStart < 0) {
+        return undefined;
+    }
+    return pushAutoLinks(editorState, applyAutoLinks(contentState, block, wordStart, offset));
+};
+
+/**
+ * Turn all urls and e-mail addresses of the last inserted content, e.g. a paste, into links.
+ * The inserted range is taken from the selection before and after the last change.
+ * @param {EditorState} editorState The editor state to modify.
+ * @returns {EditorState | undefined} The new editor state or undefined if nothing was linked.
+ */
+export const autoLinkInsertedContent = (editorState: EditorState): EditorState | undefined => {
+    const contentState = editorState.getCurrentContent();
+    const startKey = contentState.getSelectionBefore().getStartKey();
+    const startOffset = contentState.getSelectionBefore().getStartOffset();
+    const endKey = contentState.getSelectionAfter().getEndKey();
+    const endOffset = contentState.getSelectionAfter().getEndOffset();
+    if (!contentState.getBlockForKey(startKey) || !contentState.getBlockForKey(endKey)) {
+        return undefined;
+    }
+    const blocks = contentState
+        .getBlockMap()
+        .skipUntil((_, key) => key === startKey)
+        .takeUntil((_, key) => key === contentState.getKeyAfter(endKey))
+        .toArray();
+    const newContentState = blocks.reduce((currentContentState, block) => {
+        const start = block.getKey() === startKey ? startOffset : 0;
+        const end = block.getKey() === endKey ? endOffset : block.getLength();
+        return applyAutoLinks(currentContentState, block, start, end);
+    }, contentState);
+    return pushAutoLinks(editorState, newContentState);
+};
@@ -0,0 +1,10 @@
+import React from 'react';
+import { DefaultDraftBlockRenderMap } from 'draft-js';
+import { customCheckableListStyle } from './CustomStyles';
+import { checkableListItemBlockType } from './TaskList';
+
+/** The block render map of the editor and viewer, rendering checkable list items as list. */
+export const blockRenderMap = DefaultDraftBlockRenderMap.set(checkableListItemBlockType, {
+    element: 'li',
+    wrapper: <ul className={customCheckableListStyle} />,
+});
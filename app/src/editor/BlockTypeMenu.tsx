@@ -0,0 +1,101 @@
+import React, { FormEvent, FunctionComponent, useContext } from 'react';
+import { Dropdown, DropdownMenuItemType, IDropdownOption, mergeStyles } from '@fluentui/react';
+import { blockRenderMap } from './BlockRenderMap';
+import { customBlockQuoteStyle } from './CustomStyles';
+import { checkableListItemBlockType } from './TaskList';
+import { ITextEditorStrings, TextEditorStringsContext } from './Strings';
+
+/** A block type offered by the menu. */
+interface IBlockTypeMenuItem {
+    /** The block type. */
+    blockType: string;
+    /** The text of the item. */
+    label: keyof ITextEditorStrings;
+    /** The marker displayed in front of the preview of list items. */
+    marker?: string;
+    /** Whether a divider is displayed before the item. */
+    isGroupStart?: boolean;
+}
+
+/** The block types of the menu in display order. */
+const blockTypeMenuItems: IBlockTypeMenuItem[] = [
+    { blockType: 'unstyled', label: 'paragraph' },
+    { blockType: 'header-one', label: 'headline1', isGroupStart: true },
+    { blockType: 'header-two', label: 'headline2' },
+    { blockType: 'header-three', label: 'headline3' },
+    { blockType: 'header-four', label: 'headline4' },
+    { blockType: 'header-five', label: 'headline5' },
+    { blockType: 'header-six', label: 'headline6' },
+    { blockType: 'blockquote', label: 'blockquote', isGroupStart: true },
+    { blockType: 'code-block', label: 'codeBlock' },
+    { blockType: 'unordered-list-item', label: 'unorderedList', marker: '•', isGroupStart: true },
+    { blockType: 'ordered-list-item', label: 'orderedList', marker: '1.' },
+    { blockType: checkableListItemBlockType, label: 'checkList', marker: '☐' },
+];
+
+/** Styles of the previews, keeping the font of each block type but fitting them into the menu items. */
+const previewStyle = mergeStyles({
+    margin: 0,
+    padding: 0,
+    lineHeight: 'normal',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+});
+
+export interface IBlockTypeMenuProps {
+    /** The block type of the block at the selection. */
+    selectedBlockType: string;
+    /** Callback to execute when a block type is chosen. */
+    onChange: (blockType: string) => void;
+}
+
+/**
+ * Menu to choose the block type of the selected blocks, previewing each block type in its style.
+ * @param {IBlockTypeMenuProps} props The block type menu properties.
+ * @returns {FunctionComponent} The block type menu component.
+ */
+export const BlockTypeMenu: FunctionComponent<IBlockTypeMenuProps> = (props) => {
+    /** The texts of the editor. */
+    const strings = useContext(TextEditorStringsContext);
+
+    /** The options of the dropdown, with dividers between the groups of block types. */
+    const options: IDropdownOption[] = blockTypeMenuItems.flatMap((item, index) => [
+        ...(item.isGroupStart && index > 0 ? [{ key: `divider-${item.blockType}`, text: '-', itemType: DropdownMenuItemType.Divider }] : []),
+        { key: item.blockType, text: strings[item.label] },
+    ]);
+
+    /**
+     * Render an option as a preview of its block type, using the element and styles the editor uses for the block type.
+     * @param {IDropdownOption} option The option to render.
+     * @returns {React.ReactElement | null} The rendered preview.
+     */
+    const onRenderOption = (option?: IDropdownOption): React.ReactElement | null => {
+        const item = blockTypeMenuItems.find((menuItem) => menuItem.blockType === option?.key);
+        if (!option || !item) {
+            return null;
+        }
+        if (item.marker) {
+            return <span className={previewStyle}>{`${item.marker} ${option.text}`}</span>;
+        }
+        const className = item.blockType === 'blockquote' ? `${previewStyle} ${customBlockQuoteStyle}` : previewStyle;
+        return React.createElement(blockRenderMap.get(item.blockType).element, { className }, option.text);
+    };
+
+    return (
+        <Dropdown
+            ariaLabel={strings.blockType}
+            placeholder={strings.blockType}
+            styles={{ root: { minWidth: 150, maxWidth: 150 } }}
+            dropdownWidth="auto"
+            options={options}
+            selectedKey={blockTypeMenuItems.some((item) => item.blockType === props.selectedBlockType) ? props.selectedBlockType : null}
+            onRenderOption={onRenderOption}
+            onChange={(_: FormEvent<HTMLDivElement>, option?: IDropdownOption) => {
+                if (option) {
+                    props.onChange(option.key as string);
+                }
+            }}
+        />
+    );
+};
@@ -0,0 +1,271 @@
+import { ContentBlock, DraftDecorator } from 'draft-js';
+import { DraftCodeToken } from './DraftCodeToken';
+
+/** The kinds of tokens the syntax highlighting distinguishes. */
+export type CodeTokenType = 'keyword' | 'string' | 'comment' | 'number';
+
+/** A rule that matches tokens of one type. */
+interface ICodeTokenRule {
+    /** The type of the matched tokens. */
+    type: CodeTokenType;
+    /** The pattern matching a token, without capturing groups. */
+    pattern: RegExp;
+}
+
+/** A language the code blocks can be highlighted with. */
+export interface ICodeLanguage {
+    /** The identifier of the language, used as fence info string and css class. */
+    id: string;
+    /** The name of the language to display to the user. */
+    displayName: string;
+    /** Other identifiers of the language, e.g. 'js' for javascript. */
+    aliases?: string[];
+    /** The token rules in order of precedence. */
+    rules: ICodeTokenRule[];
+}
+
+/** A highlighted token of a code block. */
+interface ICodeToken {
+    /** The type of the token. */
+    type: CodeTokenType;
+    /** The start offset of the token. */
+    start: number;
+    /** The end offset of the token. */
+    end: number;
+}
+
+/**
+ * Create a pattern that matches the given keywords as whole words.
+ * @param {string} keywords The whitespace separated keywords.
+ * @returns {RegExp} The keyword pattern.
+ */
+const keywordPattern = (keywords: string): RegExp => {
+    return new RegExp(`\\b(?:${keywords.trim().split(/\s+/).join('|')})\\b`);
+};
+
+/** Matches single and double quoted strings. */
+const quotedStringPattern = /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/;
+/** Matches decimal and hexadecimal numbers. */
+const numberPattern = /\b(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/;
+/** Matches c style line and block comments. */
+const cStyleCommentPattern = /\/\/.*|\/\*[\s\S]*?(?:\*\/|$)/;
+
+/** Keywords shared by javascript and typescript. */
+const javascriptKeywords = `async await break case catch class const continue debugger default delete do else export extends false finally for from
+    function if import in instanceof let new null of return static super switch this throw true try typeof undefined var
+    void while yield`;
+
+/** Keywords only typescript has. */
+const typescriptKeywords = `abstract any as boolean declare enum implements interface keyof never number private protected public readonly string
+    type unknown`;
+
+/** The keywords of python. */
+const pythonKeywords = `and as assert async await break class continue def del elif else except False finally for from global if import in is
+    lambda None nonlocal not or pass raise return True try while with yield`;
+
+/** The keywords of java. */
+const javaKeywords = `abstract boolean break byte case catch char class continue default do double else enum extends false final finally float
+    for if implements import instanceof int interface long new null package private protected public return short static
+    super switch this throw throws true try void while`;
+
+/** The keywords of c#. */
+const csharpKeywords = `abstract as async await base bool break case catch class const continue decimal default do double else enum false
+    finally float for foreach if in int interface internal is long namespace new null object out override private protected
+    public readonly ref return sealed static string struct switch this throw true try using var virtual void while`;
+
+/** The keywords of bash. */
+const bashKeywords = `case do done echo elif else esac exit export fi for function if in local return then until while`;
+
+/** The keywords of sql. */
+const sqlKeywords = `all and as asc by create delete desc distinct drop from group having in index inner insert into is join left limit not
+    null on or order outer right select set table union update values where`;
+
+/** The languages the code blocks can be highlighted with. */
+export const codeLanguages: ICodeLanguage[] = [
+    {
+        id: 'javascript',
+        displayName: 'JavaScript',
+        aliases: ['js', 'jsx'],
+        rules: [
+            { type: 'comment', pattern: cStyleCommentPattern },
+            { type: 'string', pattern: /`(?:\\.|[^`\\])*`|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/ },
+            { type: 'keyword', pattern: keywordPattern(javascriptKeywords) },
+            { type: 'number', pattern: numberPattern },
+        ],
+    },
+    {
+        id: 'typescript',
+        displayName: 'TypeScript',
+        aliases: ['ts', 'tsx'],
+        rules: [
+            { type: 'comment', pattern: cStyleCommentPattern },
+            { type: 'string', pattern: /`(?:\\.|[^`\\])*`|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/ },
+            { type: 'keyword', pattern: keywordPattern(`${javascriptKeywords} ${typescriptKeywords}`) },
+            { type: 'number', pattern: numberPattern },
+        ],
+    },
+    {
+        id: 'python',
+        displayName: 'Python',
+        aliases: ['py'],
+        rules: [
+            { type: 'comment', pattern: /#.*/ },
+            { type: 'string', pattern: /"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/ },
+            { type: 'keyword', pattern: keywordPattern(pythonKeywords) },
+            { type: 'number', pattern: numberPattern },
+        ],
+    },
+    {
+        id: 'java',
+        displayName: 'Java',
+        rules: [
+            { type: 'comment', pattern: cStyleCommentPattern },
+            { type: 'string', pattern: quotedStringPattern },
+            { type: 'keyword', pattern: keywordPattern(javaKeywords) },
+            { type: 'number', pattern: numberPattern },
+        ],
+    },
+    {
+        id: 'csharp',
+        displayName: 'C#',
+        aliases: ['cs', 'c#'],
+        rules: [
+            { type: 'comment', pattern: cStyleCommentPattern },
+            { type: 'string', pattern: /@"(?:""|[^"])*"|\$?"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/ },
+            { type: 'keyword', pattern: keywordPattern(csharpKeywords) },
+            { type: 'number', pattern: numberPattern },
+        ],
+    },
+    {
+        id: 'json',
+        displayName: 'JSON',
+        rules: [
+            { type: 'string', pattern: /"(?:\\.|[^"\\\n])*"/ },
+            { type: 'keyword', pattern: keywordPattern('true false null') },
+            { type: 'number', pattern: /-?\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/ },
+        ],
+    },
+    {
+        id: 'html',
+        displayName: 'HTML',
+        aliases: ['xml'],
+        rules: [
+            { type: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/ },
+            { type: 'string', pattern: quotedStringPattern },
+            { type: 'keyword', pattern: /<\/?[\w-]+|\/?>/ },
+        ],
+    },
+    {
+        id: 'css',
+        displayName: 'CSS',
+        aliases: ['scss'],
+        rules: [
+            { type: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/ },
+            { type: 'string', pattern: quotedStringPattern },
+            { type: 'keyword', pattern: /@[\w-]+|[\w-]+(?=\s*:)/ },
+            { type: 'number', pattern: /-?\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms)?\b|#[\da-f]{3,8}\b/ },
+        ],
+    },
+    {
+        id: 'bash',
+        displayName: 'Bash',
+        aliases: ['sh', 'shell'],
+        rules: [
+            { type: 'comment', pattern: /#.*/ },
+            { type: 'string', pattern: quotedStringPattern },
+            { type: 'keyword', pattern: keywordPattern(bashKeywords) },
+            { type: 'number', pattern: numberPattern },
+        ],
+    },
+    {
+        id: 'sql',
+        displayName: 'SQL',
+        rules: [
+            { type: 'comment', pattern: /--.*|\/\*[\s\S]*?(?:\*\/|$)/ },
+            { type: 'string', pattern: /'(?:''|[^'])*'/ },
+            {
+                type: 'keyword',
+                pattern: new RegExp(keywordPattern(sqlKeywords).source, 'i'),
+            },
+            { type: 'number', pattern: numberPattern },
+        ],
+    },
+];
+
+/** The combined token patterns by language identifier, created on first use. */
+const languagePatterns: { [id: string]: RegExp } = {};
+
+/** The tokens of already highlighted code blocks. Blocks are immutable, so the tokens never change. */
+const tokenCache = new WeakMap<ContentBlock, ICodeToken[]>();
+
+/**
+ * Get the language with the given identifier or alias.
+ * @param {string | undefined} id The identifier or alias of the language, e.g. the fence info string.
+ * @returns {ICodeLanguage | undefined} The language or undefined if it is not supported.
+ */
+export const getCodeLanguage = (id: string | undefined): ICodeLanguage | undefined => {
+    const normalizedId = id?.trim().toLowerCase();
+    if (!normalizedId) {
+        return undefined;
+    }
+    return codeLanguages.find((language) => language.id === normalizedId || language.aliases?.includes(normalizedId));
+};
+
+/**
+ * Split the text of a code block into highlighted tokens.
+ * @param {string} text The code to tokenize.
+ * @param {ICodeLanguage} language The language of the code.
+ * @returns {ICodeToken[]} The tokens in text order.
+ */
+const tokenize = (text: string, language: ICodeLanguage): ICodeToken[] => {
+    if (!languagePatterns[language.id]) {
+        const flags = language.rules.some((rule) => rule.pattern.ignoreCase) ? 'gi' : 'g';
+        languagePatterns[language.id] = new RegExp(language.rules.map((rule) => `(${rule.pattern.source})`).join('|'), flags);
+    }
+    const pattern = languagePatterns[language.id];
+    const tokens: ICodeToken[] = [];
+    let match: RegExpExecArray | null;
+    pattern.lastIndex = 0;
+    while ((match = pattern.exec(text))) {
+        if (!match[0]) {
+            pattern.lastIndex++;
+            continue;
+        }
+        const ruleIndex = match.slice(1).findIndex((group) => group !== undefined);
+        tokens.push({ type: language.rules[ruleIndex].type, start: match.index, end: match.index + match[0].length });
+    }
+    return tokens;
+};
+
+/**
+ * Get the highlighted tokens of a code block.
+ * @param {ContentBlock} block The block to highlight.
+ * @returns {ICodeToken[]} The tokens or an empty list if the block is no code block of a supported language.
+ */
+const getCodeTokens = (block: ContentBlock): ICodeToken[] => {
+    let tokens = tokenCache.get(block);
+    if (!tokens) {
+        const language = block.getType() === 'code-block' ? getCodeLanguage(block.getData().get('language')) : undefined;
+        tokens = language ? tokenize(block.getText(), language) : [];
+        tokenCache.set(block, tokens);
+    }
+    return tokens;
+};
+
+/**
+ * Create a decorator that renders the tokens of one type.
+ * @param {CodeTokenType} type The token type to render.
+ * @returns {DraftDecorator} The decorator.
+ */
+const createCodeTokenDecorator = (type: CodeTokenType): DraftDecorator => ({
+    strategy: (block: ContentBlock, callback: (start: number, end: number) => void) => {
+        getCodeTokens(block)
+            .filter((token) => token.type === type)
+            .forEach((token) => callback(token.start, token.end));
+    },
+    component: DraftCodeToken,
+    props: { type },
+});
+
+/** The decorators that highlight the syntax of code blocks. */
+export const codeHighlightDecorators: DraftDecorator[] = (['comment', 'string', 'keyword', 'number'] as CodeTokenType[]).map(createCodeTokenDecorator);
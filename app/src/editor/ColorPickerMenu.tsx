@@ -0,0 +1,116 @@
+import React, { FunctionComponent, useContext, useState } from 'react';
+import styled from 'styled-components';
+import { Callout, ColorPicker, DefaultButton, IColorCellProps, IconButton, PrimaryButton, SwatchColorPicker, TooltipHost, useTheme } from '@fluentui/react';
+import { useId } from '@fluentui/react-hooks';
+import { getDisplayColor, getSwatchLabel, IColorSwatch, isDarkPalette, toHexColor } from './TextStyles';
+import { TextEditorStringsContext } from './Strings';
+
+const MenuContent = styled.div`
+    display: flex;
+    flex-direction: column;
+    gap: 10px;
+    padding: 10px;
+`;
+
+export interface IColorPickerMenuProps {
+    /** The name of the fluent ui icon of the button. */
+    iconName: string;
+    /** The tooltip and accessible label of the button. */
+    label: string;
+    /** The colors to offer. */
+    swatches: IColorSwatch[];
+    /** Whether colors that are not in the swatches can be picked. */
+    allowCustomColors: boolean;
+    /** The stored hex color of the text at the selection. */
+    selectedColor?: string;
+    /** Callback to execute when a color is picked. Undefined removes the color. */
+    onChange: (color: string | undefined) => void;
+}
+
+/**
+ * Toolbar button that opens a menu to pick a color from swatches or a custom color. The swatches are displayed in the colors of the current palette.
+ * @param {IColorPickerMenuProps} props The color picker menu properties.
+ * @returns {FunctionComponent} The color picker menu component.
+ */
+export const ColorPickerMenu: FunctionComponent<IColorPickerMenuProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+    /** The texts of the editor. */
+    const strings = useContext(TextEditorStringsContext);
+    /** The unique identifier of the button, used as target of the menu. */
+    const buttonId = useId('color-picker-menu');
+    /** Whether the menu is open. */
+    const [isMenuOpen, setIsMenuOpen] = useState<boolean>(false);
+    /** The custom color of the color picker. */
+    const [customColor, setCustomColor] = useState<string>(props.selectedColor ?? '#000000');
+
+    /** Whether the swatches are displayed in their dark colors. */
+    const isDark = isDarkPalette(theme.palette);
+    /** The cells of the swatch color picker, identified by the stored color. */
+    const colorCells: IColorCellProps[] = props.swatches.map((swatch) => {
+        const color = toHexColor(swatch.color) ?? swatch.color;
+        return { id: color, label: getSwatchLabel(swatch, strings), color: getDisplayColor(color, props.swatches, isDark) };
+    });
+
+    /**
+     * Pick a color and close the menu.
+     * @param {string | undefined} color The picked hex color or undefined to remove the color.
+     */
+    const pickColor = (color: string | undefined) => {
+        setIsMenuOpen(false);
+        props.onChange(color);
+    };
+
+    return (
+        <>
+            <TooltipHost content={props.label}>
+                <IconButton
+                    id={buttonId}
+                    ariaLabel={props.label}
+                    aria-haspopup="dialog"
+                    aria-expanded={isMenuOpen}
+                    styles={{
+                        root: {
+                            backgroundColor: 'unset',
+                            marginRight: '5px',
+                            color: theme.palette.black,
+                        },
+                        icon: {
+                            borderBottom: `3px solid ${props.selectedColor ? getDisplayColor(props.selectedColor, props.swatches, isDark) : 'transparent'}`,
+                        },
+                    }}
+                    iconProps={{ iconName: props.iconName }}
+                    onMouseDown={(event) => {
+                        // Keep the selection in the editor.
+                        event.preventDefault();
+                    }}
+                    onClick={() => setIsMenuOpen(!isMenuOpen)}
+                />
+            </TooltipHost>
+            {isMenuOpen && (
+                <Callout target={`#${buttonId}`} role="dialog" ariaLabel={props.label} setInitialFocus onDismiss={() => setIsMenuOpen(false)}>
+                    <MenuContent>
+                        <SwatchColorPicker
+                            columnCount={6}
+                            cellShape="square"
+                            colorCells={colorCells}
+                            selectedId={props.selectedColor}
+                            onChange={(_, id?: string) => {
+                                if (id) {
+                                    pickColor(id);
+                                }
+                            }}
+                        />
+                        <DefaultButton text={strings.removeColor} onClick={() => pickColor(undefined)} />
+                        {props.allowCustomColors && (
+                            <>
+                                <ColorPicker color={customColor} alphaType="none" onChange={(_, color) => setCustomColor(`#${color.hex.toLowerCase()}`)} />
+                                <PrimaryButton text={strings.applyCustomColor} onClick={() => pickColor(customColor)} />
+                            </>
+                        )}
+                    </MenuContent>
+                </Callout>
+            )}
+        </>
+    );
+};
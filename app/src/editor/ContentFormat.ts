@@ -0,0 +1,87 @@
+import { ContentState, EditorState } from 'draft-js';
+import {
+    createEditorStateFromContent,
+    exportEditorStateToHtmlString,
+    exportEditorStateToMarkdownString,
+    exportEditorStateToRawJsonString,
+    getEditorStateFromHtml,
+    getEditorStateFromMarkdown,
+    getEditorStateFromRawJson,
+} from './Parser';
+
+/** A string format the text editor can import and export. */
+export interface IContentFormat {
+    /** The unique identifier of the format, used as content type of the text editor. */
+    id: string;
+    /** The name of the format to display to the user. */
+    displayName: string;
+    /** Convert a string of this format into a new draft-js editor state. */
+    import: (content: string) => EditorState;
+    /** Convert a draft-js editor state into a string of this format. */
+    export: (editorState: EditorState) => string;
+}
+
+/** All registered content formats by identifier, in registration order. */
+const contentFormats: { [id: string]: IContentFormat } = {};
+
+/**
+ * Register a content format, so that it can be used as content type of the text editor.
+ * A format with an already registered identifier replaces the existing one.
+ * @param {IContentFormat} contentFormat The content format to register.
+ */
+export const registerContentFormat = (contentFormat: IContentFormat) => {
+    contentFormats[contentFormat.id] = contentFormat;
+};
+
+/**
+ * Get the registered content format with the given identifier.
+ * @param {string} id The identifier of the content format.
+ * @returns {IContentFormat | undefined} The content format or undefined if none is registered.
+ */
+export const getContentFormat = (id: string): IContentFormat | undefined => {
+    return contentFormats[id];
+};
+
+/**
+ * Get all registered content formats.
+ * @returns {IContentFormat[]} The registered content formats in registration order.
+ */
+export const getContentFormats = (): IContentFormat[] => {
+    return Object.values(contentFormats);
+};
+
+/**
+ * Import a string with a content format. Content the format cannot read, e.g. invalid json or a raw document of an unsupported schema version,
+ * is imported as plain text instead, so that a single bad value does not break the editor or the viewer.
+ * @param {IContentFormat} contentFormat The content format of the string.
+ * @param {string} content The content to import.
+ * @returns {EditorState} The imported editor state.
+ */
+export const importContentWithFallback = (contentFormat: IContentFormat, content: string): EditorState => {
+    try {
+        return contentFormat.import(content);
+    } catch {
+        return createEditorStateFromContent(ContentState.createFromText(content));
+    }
+};
+
+registerContentFormat({
+    id: 'markdown',
+    displayName: 'Markdown',
+    import: getEditorStateFromMarkdown,
+    export: exportEditorStateToMarkdownString,
+});
+
+registerContentFormat({
+    id: 'html',
+    displayName: 'HTML',
+    import: getEditorStateFromHtml,
+    export: exportEditorStateToHtmlString,
+});
+
+registerContentFormat({
+    id: 'raw',
+    displayName: 'Draft JSON',
+    import: getEditorStateFromRawJson,
+    export: exportEditorStateToRawJsonString,
+});
@@ -0,0 +1,270 @@
+import 'draft-js/dist/Draft.css';
+
+import React, { ComponentType, CSSProperties, FunctionComponent, ReactElement, ReactNode, useMemo } from 'react';
+import { CompositeDecorator, ContentBlock, ContentState, DefaultDraftInlineStyle, DraftInlineStyle, DraftStyleMap } from 'draft-js';
+import styled from 'styled-components';
+import { useTheme } from '@fluentui/react';
+import { getContentFormat, importContentWithFallback } from './ContentFormat';
+import { createDecorator } from './Parser';
+import { blockRenderMap } from './BlockRenderMap';
+import { customBlockQuoteStyle, customInlineStyleMap } from './CustomStyles';
+import { getAlignmentClassName } from './Alignment';
+import { getTextStyleProperties, isDarkPalette } from './TextStyles';
+import { DraftImage } from './DraftImage';
+import { DraftTable } from './DraftTable';
+import { DraftCheckableListItem } from './DraftCheckableListItem';
+import { checkableListItemBlockType } from './TaskList';
+import { imageEntityType } from './Image';
+import { tableEntityType } from './Table';
+import { defaultTextEditorStrings, ITextEditorStrings, TextEditorStringsContext } from './Strings';
+import { TextDirection, TextDirectionProvider } from './TextDirection';
+
+const ViewerContainer = styled.div`
+    white-space: pre-wrap;
+    overflow-wrap: break-word;
+`;
+
+export interface IContentViewerProps {
+    /** The content to display as string. */
+    content: string;
+    /** The identifier of the registered content format of the content, e.g. 'markdown' or 'html'. */
+    contentType: string;
+    /** The texts of the viewer, like the actions of link cards, that replace the built in english texts. */
+    strings?: Partial<ITextEditorStrings>;
+    /** The direction of the text. The direction of the surrounding theme is kept if not set. */
+    dir?: TextDirection;
+}
+
+/** The properties the viewer passes to decorator components, matching the ones draft js passes. */
+interface IDecoratedRangeProps {
+    /** The content state of the displayed content. */
+    contentState: ContentState;
+    /** The key of the entity at the start of the range. */
+    entityKey: string | null;
+    /** The text of the decorated range. */
+    decoratedText: string;
+    /** The rendered text of the range. */
+    children: ReactNode;
+}
+
+/** The inline styles draft js applies by default, the typings wrongly declare it as immutable map, and the custom inline styles of the editor. */
+const defaultInlineStyleMap: DraftStyleMap = { ...(DefaultDraftInlineStyle as unknown as DraftStyleMap), ...customInlineStyleMap };
+
+/** The decorator used to display links, mentions and highlighted code. */
+const viewerDecorator = createDecorator();
+
+/**
+ * Get the css properties of a set of inline styles. Text decorations like underline and strikethrough are combined.
+ * @param {DraftInlineStyle} inlineStyle The inline styles of a text range.
+ * @param {boolean} isDark Whether the palette of the theme is dark, so that the text styles are displayed in their dark colors.
+ * @returns {CSSProperties} The css properties.
+ */
+const getInlineStyleProperties = (inlineStyle: DraftInlineStyle, isDark: boolean): CSSProperties => {
+    const defaultProperties = inlineStyle.reduce<CSSProperties>((properties = {}, styleName) => {
+        const style = styleName ? defaultInlineStyleMap[styleName] : undefined;
+        if (!style) {
+            return properties;
+        }
+        const textDecoration = [properties.textDecoration, style.textDecoration].filter((decoration) => !!decoration).join(' ');
+        return { ...properties, ...style, ...(textDecoration ? { textDecoration } : {}) };
+    }, {});
+    return { ...defaultProperties, ...getTextStyleProperties(inlineStyle, isDark) };
+};
+
+/**
+ * Render a range of block text, split into spans of equal inline styles.
+ * @param {ContentBlock} block The block containing the text.
+ * @param {number} start The start offset of the range.
+ * @param {number} end The end offset of the range.
+ * @param {boolean} isDark Whether the palette of the theme is dark.
+ * @returns {ReactNode[]} The rendered text.
+ */
+const renderStyledText = (block: ContentBlock, start: number, end: number, isDark: boolean): ReactNode[] => {
+    const leaves: ReactNode[] = [];
+    let leafStart = start;
+    for (let offset = start + 1; offset <= end; offset++) {
+        const inlineStyle = block.getInlineStyleAt(leafStart);
+        if (offset === end || !block.getInlineStyleAt(offset).equals(inlineStyle)) {
+            const text = block.getText().slice(leafStart, offset);
+            leaves.push(
+                inlineStyle.size ? (
+                    <span key={leafStart} style={getInlineStyleProperties(inlineStyle, isDark)}>
+                        {text}
+                    </span>
+                ) : (
+                    text
+                ),
+            );
+            leafStart = offset;
+        }
+    }
+    return leaves;
+};
+
+/**
+ * Render the text of a block with its inline styles and decorators.
+ * @param {ContentBlock} block The block to render.
+ * @param {ContentState} contentState The displayed content.
+ * @param {CompositeDecorator} decorator The decorator of the content.
+ * @param {boolean} isDark Whether the palette of the theme is dark.
+ * @returns {ReactNode[]} The rendered text.
+ */
+const renderBlockText = (block: ContentBlock, contentState: ContentState, decorator: CompositeDecorator, isDark: boolean): ReactNode[] => {
+    const text = block.getText();
+    if (!text) {
+        // Keep the height of empty lines like draft js does.
+        return [<br key="empty" />];
+    }
+    const decorations = decorator.getDecorations(block, contentState).toArray();
+    const ranges: { start: number; end: number; decoratorKey: string | null }[] = [];
+    decorations.forEach((decoratorKey, offset) => {
+        const lastRange = ranges[ranges.length - 1];
+        if (lastRange && lastRange.decoratorKey === (decoratorKey ?? null)) {
+            lastRange.end = offset + 1;
+        } else {
+            ranges.push({ start: offset, end: offset + 1, decoratorKey: decoratorKey ?? null });
+        }
+    });
+    return ranges.map((range) => {
+        const styledText = renderStyledText(block, range.start, range.end, isDark);
+        if (!range.decoratorKey) {
+            return <React.Fragment key={range.start}>{styledText}</React.Fragment>;
+        }
+        const DecoratorComponent = decorator.getComponentForKey(range.decoratorKey) as ComponentType<IDecoratedRangeProps>;
+        return (
+            <DecoratorComponent
+                key={range.start}
+                {...decorator.getPropsForKey(range.decoratorKey)}
+                contentState={contentState}
+                entityKey={block.getEntityAt(range.start)}
+                decoratedText={text.slice(range.start, range.end)}
+            >
+                {styledText}
+            </DecoratorComponent>
+        );
+    });
+};
+
+/**
+ * Render the content of an atomic block, like an image or a read only table.
+ * @param {ContentBlock} block The atomic block.
+ * @param {ContentState} contentState The displayed content.
+ * @returns {ReactNode} The rendered block content.
+ */
+const renderAtomicBlock = (block: ContentBlock, contentState: ContentState): ReactNode => {
+    const entityKey = block.getEntityAt(0);
+    const entityType = entityKey ? contentState.getEntity(entityKey).getType() : undefined;
+    if (entityType === tableEntityType) {
+        return <DraftTable block={block} contentState={contentState} />;
+    }
+    if (entityType === imageEntityType) {
+        return <DraftImage block={block} contentState={contentState} />;
+    }
+    return null;
+};
+
+/**
+ * Get the class names draft js gives list items, used by the draft js styles for indentation and numbering.
+ * @param {ContentBlock} block The list item block.
+ * @param {boolean} shouldResetCount Whether the numbering of ordered lists restarts at this item.
+ * @param {boolean} isRtl Whether the list is displayed right to left.
+ * @returns {string[]} The class names.
+ */
+const getListItemClassNames = (block: ContentBlock, shouldResetCount: boolean, isRtl: boolean): string[] => {
+    const type = block.getType();
+    if (type !== 'unordered-list-item' && type !== 'ordered-list-item') {
+        return [];
+    }
+    return [
+        type === 'unordered-list-item' ? 'public-DraftStyleDefault-unorderedListItem' : 'public-DraftStyleDefault-orderedListItem',
+        ...(shouldResetCount ? ['public-DraftStyleDefault-reset'] : []),
+        `public-DraftStyleDefault-depth${Math.min(block.getDepth(), 4)}`,
+        isRtl ? 'public-DraftStyleDefault-listRTL' : 'public-DraftStyleDefault-listLTR',
+    ];
+};
+
+/**
+ * Render all blocks of a content with the elements and wrappers of the block render map, like the editor does.
+ * @param {ContentState} contentState The content to render.
+ * @param {CompositeDecorator} decorator The decorator of the content.
+ * @param {boolean} isRtl Whether the content is displayed right to left.
+ * @param {boolean} isDark Whether the palette of the theme is dark.
+ * @returns {ReactNode[]} The rendered blocks.
+ */
+const renderBlocks = (contentState: ContentState, decorator: CompositeDecorator, isRtl: boolean, isDark: boolean): ReactNode[] => {
+    const renderedBlocks: ReactNode[] = [];
+    let wrapper: ReactElement | undefined;
+    let wrappedBlocks: ReactNode[] = [];
+    let lastDepth: number | undefined;
+
+    /**
+     * Add the collected blocks of the current wrapper to the rendered blocks.
+     */
+    const flushWrapper = () => {
+        if (wrapper && wrappedBlocks.length) {
+            renderedBlocks.push(React.cloneElement(wrapper, { key: `wrapper-${renderedBlocks.length}` }, wrappedBlocks));
+        }
+        wrappedBlocks = [];
+    };
+
+    contentState.getBlocksAsArray().forEach((block) => {
+        const type = block.getType();
+        const config = blockRenderMap.get(type) ?? blockRenderMap.get('unstyled');
+        const blockWrapper: ReactElement | undefined = config.wrapper;
+        const isNewWrapper = blockWrapper !== wrapper;
+        if (isNewWrapper) {
+            flushWrapper();
+            wrapper = blockWrapper;
+        }
+        const shouldResetCount = isNewWrapper || lastDepth === undefined || block.getDepth() > lastDepth;
+        lastDepth = blockWrapper ? block.getDepth() : undefined;
+        const className =
+            [...(type === 'blockquote' ? [customBlockQuoteStyle] : []), getAlignmentClassName(block), ...getListItemClassNames(block, shouldResetCount, isRtl)]
+                .filter((name) => !!name)
+                .join(' ') || undefined;
+        const children =
+            type === 'atomic' ? (
+                renderAtomicBlock(block, contentState)
+            ) : type === checkableListItemBlockType ? (
+                <DraftCheckableListItem block={block}>{renderBlockText(block, contentState, decorator, isDark)}</DraftCheckableListItem>
+            ) : (
+                renderBlockText(block, contentState, decorator, isDark)
+            );
+        const renderedBlock = React.createElement(config.element, { key: block.getKey(), className }, children);
+        if (blockWrapper) {
+            wrappedBlocks.push(renderedBlock);
+        } else {
+            renderedBlocks.push(renderedBlock);
+        }
+    });
+    flushWrapper();
+    return renderedBlocks;
+};
+
+/**
+ * Lightweight viewer that displays content like the text editor does, without mounting an editor.
+ * The content is imported with the registered content formats and rendered with the same decorators and block styles.
+ * @param {IContentViewerProps} props The content viewer properties.
+ * @returns {FunctionComponent} The content viewer component.
+ */
+export const ContentViewer: FunctionComponent<IContentViewerProps> = (props) => {
+    /** Access to the theme, used for the direction if none is passed. */
+    const theme = useTheme();
+    /** The imported content, only recreated when the content or its type change. Content the format cannot read is displayed as plain text. */
+    const contentState = useMemo(() => {
+        const contentFormat = getContentFormat(props.contentType);
+        return contentFormat ? importContentWithFallback(contentFormat, props.content).getCurrentContent() : undefined;
+    }, [props.content, props.contentType]);
+    /** The texts of the viewer, the built in english texts overridden by the passed ones. */
+    const strings = useMemo(() => ({ ...defaultTextEditorStrings, ...props.strings }), [props.strings]);
+
+    return (
+        <TextDirectionProvider dir={props.dir}>
+            <TextEditorStringsContext.Provider value={strings}>
+                <ViewerContainer>
+                    {contentState && renderBlocks(contentState, viewerDecorator, props.dir ? props.dir === 'rtl' : !!theme.rtl, isDarkPalette(theme.palette))}
+                </ViewerContainer>
+            </TextEditorStringsContext.Provider>
+        </TextDirectionProvider>
+    );
+};
@@ -1,4 +1,5 @@
 import { mergeStyles } from '@fluentui/react';
+import { DraftStyleMap } from 'draft-js';
 
 /**
  * Custom styles to format blockquote blocks.
@@ -7,3 +8,22 @@ export const customBlockQuoteStyle = mergeStyles({
     fontSize: 16,
     fontStyle: 'italic',
 });
+
+/**
+ * Custom styles to format the list that wraps checkable list items.
+ */
+export const customCheckableListStyle = mergeStyles({
+    listStyle: 'none',
+    margin: '16px 0',
+    padding: 0,
+});
+
+/**
+ * Custom inline styles the editor and the viewer display in addition to the draft js default inline styles.
+ * Highlighted text keeps a dark text color, so that it stays readable on dark themes.
+ */
+export const customInlineStyleMap: DraftStyleMap = {
+    SUPERSCRIPT: { verticalAlign: 'super', fontSize: 'smaller' },
+    SUBSCRIPT: { verticalAlign: 'sub', fontSize: 'smaller' },
+    HIGHLIGHT: { backgroundColor: '#fff100', color: '#000000' },
+};
@@ -0,0 +1,77 @@
+import React, { FunctionComponent, MouseEvent } from 'react';
+import { ContentBlock, EditorBlock } from 'draft-js';
+import styled from 'styled-components';
+import { Checkbox, IPalette, useTheme } from '@fluentui/react';
+
+interface IThemed {
+    palette: IPalette;
+}
+
+interface IItemText extends IThemed {
+    /** Whether the item is checked, transient so that it is not passed to the dom. */
+    $isChecked: boolean;
+}
+
+const ItemContainer = styled.div`
+    display: flex;
+    align-items: flex-start;
+`;
+
+const CheckboxContainer = styled.div`
+    padding: 2px 8px 0 0;
+    user-select: none;
+`;
+
+const ItemText = styled.div<IItemText>`
+    flex: 1;
+    min-width: 0;
+    color: ${(props) => (props.$isChecked ? props.palette.neutralSecondary : 'inherit')};
+    text-decoration: ${(props) => (props.$isChecked ? 'line-through' : 'none')};
+`;
+
+/** The properties the text editor passes to the checkable list item block. */
+export interface IDraftCheckableListItemBlockProps {
+    /** Callback to execute when the checkbox of the item is toggled. */
+    onToggle: (blockKey: string) => void;
+}
+
+export interface IDraftCheckableListItemProps {
+    /** The checkable list item block. */
+    block: ContentBlock;
+    /** The properties passed by the text editor. The checkbox is disabled without them. */
+    blockProps?: IDraftCheckableListItemBlockProps;
+    /** The rendered text of the item, used instead of the editable draft js block outside of the editor. */
+    children?: React.ReactNode;
+}
+
+/**
+ * Custom render component to display checkable list items with an editable text in the draft js editor.
+ * @param {IDraftCheckableListItemProps} props The draft checkable list item properties.
+ * @returns {FunctionComponent} The checkable list item component.
+ */
+export const DraftCheckableListItem: FunctionComponent<IDraftCheckableListItemProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+
+    /** Whether the item is checked. */
+    const isChecked = !!props.block.getData().get('checked');
+
+    /**
+     * Keep the focus and selection in the editor when clicking the checkbox.
+     * @param {MouseEvent} event The occurred mouse event.
+     */
+    const onCheckboxMouseDown = (event: MouseEvent) => {
+        event.preventDefault();
+    };
+
+    return (
+        <ItemContainer>
+            <CheckboxContainer contentEditable={false} suppressContentEditableWarning onMouseDown={onCheckboxMouseDown}>
+                <Checkbox checked={isChecked} disabled={!props.blockProps} onChange={() => props.blockProps?.onToggle(props.block.getKey())} />
+            </CheckboxContainer>
+            <ItemText palette={theme.palette} $isChecked={isChecked}>
+                {props.children ?? <EditorBlock {...props} />}
+            </ItemText>
+        </ItemContainer>
+    );
+};
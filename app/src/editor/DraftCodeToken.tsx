@@ -0,0 +1,41 @@
+import React, { FunctionComponent } from 'react';
+import { IPalette, IRawStyle, mergeStyles, useTheme } from '@fluentui/react';
+import { CodeTokenType } from './CodeHighlight';
+
+export interface IDraftCodeTokenProps {
+    /** The children to render. */
+    children?: React.ReactNode;
+    /** The type of the highlighted token. */
+    type: CodeTokenType;
+}
+
+/**
+ * Get the style of a token type.
+ * @param {CodeTokenType} type The type of the token.
+ * @param {IPalette} palette The theme color palette.
+ * @returns {IRawStyle} The style of the token.
+ */
+const getTokenStyle = (type: CodeTokenType, palette: IPalette): IRawStyle => {
+    switch (type) {
+        case 'keyword':
+            return { color: palette.themePrimary, fontWeight: 600 };
+        case 'string':
+            return { color: palette.orangeLight };
+        case 'comment':
+            return { color: palette.neutralTertiary, fontStyle: 'italic' };
+        case 'number':
+            return { color: palette.tealLight };
+    }
+};
+
+/**
+ * Custom render component to display a syntax highlighted token of a code block.
+ * @param {IDraftCodeTokenProps} props The code token properties.
+ * @returns {FunctionComponent} The code token component.
+ */
+export const DraftCodeToken: FunctionComponent<IDraftCodeTokenProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+
+    return <span className={mergeStyles(getTokenStyle(props.type, theme.palette))}>{props.children}</span>;
+};
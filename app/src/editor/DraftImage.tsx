@@ -0,0 +1,36 @@
+import React, { FunctionComponent } from 'react';
+import { ContentBlock, ContentState } from 'draft-js';
+import styled from 'styled-components';
+import { IImageData } from './Image';
+
+const ImageContainer = styled.div`
+    margin: 10px 0;
+`;
+
+const Image = styled.img`
+    display: block;
+    max-width: 100%;
+`;
+
+export interface IDraftImageProps {
+    /** The atomic block that holds the image entity. */
+    block: ContentBlock;
+    /** The current editor content state. */
+    contentState: ContentState;
+}
+
+/**
+ * Custom render component to display images in the draft js editor.
+ * @param {IDraftImageProps} props The draft image properties.
+ * @returns {FunctionComponent} The image component.
+ */
+export const DraftImage: FunctionComponent<IDraftImageProps> = (props) => {
+    /** Get the image source, alternative text and title. */
+    const { src, alt, title } = props.contentState.getEntity(props.block.getEntityAt(0)).getData() as IImageData;
+
+    return (
+        <ImageContainer>
+            <Image src={src} alt={alt ?? ''} title={title} />
+        </ImageContainer>
+    );
+};
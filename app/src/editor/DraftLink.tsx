@@ -1,6 +1,44 @@
-import React, { FunctionComponent } from 'react';
+import React, { createContext, FunctionComponent, MouseEvent, useContext } from 'react';
 import { ContentState } from 'draft-js';
-import { ILinkStyles, Link } from '@fluentui/react';
+import styled from 'styled-components';
+import { HoverCard, HoverCardType, IconButton, ILinkStyles, IPalette, Link, Text, useTheme } from '@fluentui/react';
+import { isSafeUrl } from './Sanitizer';
+import { ILinkData, ILinkRange } from './Link';
+import { TextEditorStringsContext } from './Strings';
+
+interface IThemed {
+    palette: IPalette;
+}
+
+const LinkCardContainer = styled.div<IThemed>`
+    display: flex;
+    align-items: center;
+    max-width: 400px;
+    padding: 5px;
+    padding-inline-start: 10px;
+    color: ${(props) => props.palette.black};
+`;
+
+const LinkCardUrl = styled.div`
+    flex: 1;
+    margin-inline-end: 10px;
+    overflow: hidden;
+    white-space: nowrap;
+    text-overflow: ellipsis;
+`;
+
+/** The actions the text editor provides for links rendered inside of it. */
+export interface IDraftLinkContext {
+    /** Whether the link is rendered in an editable editor, where clicking a link does not navigate by itself. */
+    isEditable?: boolean;
+    /** Callback to execute when the user wants to edit the link. */
+    onEditLink?: (linkRange: ILinkRange) => void;
+    /** Callback to execute when the user wants to remove the link. */
+    onRemoveLink?: (linkRange: ILinkRange) => void;
+}
+
+/** Context to pass the link actions from the text editor to the decorated links. */
+export const DraftLinkContext = createContext<IDraftLinkContext>({});
 
 export interface IDraftLinkProps {
     /** The children to render. */
@@ -9,14 +47,28 @@ export interface IDraftLinkProps {
     contentState: ContentState;
     /** The entity key. */
     entityKey: string;
+    /** The key of the block containing the link. */
+    blockKey?: string;
+    /** The start offset of the link text. */
+    start?: number;
+    /** The end offset of the link text. */
+    end?: number;
 }
 
 /**
  * Custom render component to display links in the draft js editor.
+ * Hovering the link shows a card with the url and actions to edit, open or remove the link.
  * @param {IDraftLinkProps} props The draft link properties.
  * @returns {FunctionComponent} The link component.
  */
 export const DraftLink: FunctionComponent<IDraftLinkProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+    /** Access to the link actions of the text editor. */
+    const linkContext = useContext(DraftLinkContext);
+    /** The texts of the editor. */
+    const strings = useContext(TextEditorStringsContext);
+
     /** Styles for the fluent ui link. */
     const linkStyles: Partial<ILinkStyles> = {
         root: {
@@ -25,18 +77,79 @@ export const DraftLink: FunctionComponent<IDraftLinkProps> = (props) => {
     };
 
     /** Get url and link text. */
-    const { url, linkText } = props.contentState.getEntity(props.entityKey).getData();
+    const { url, title, target, rel, linkText } = props.contentState.getEntity(props.entityKey).getData() as ILinkData & { linkText?: string };
+    /** The url to navigate to, if its scheme is allowed. */
+    const safeUrl = isSafeUrl(url) ? url : undefined;
+    /** The position of the link in the editor content, available when rendered by the editor decorator. */
+    const linkRange: ILinkRange | undefined =
+        props.blockKey !== undefined && props.start !== undefined && props.end !== undefined
+            ? { blockKey: props.blockKey, start: props.start, end: props.end, entityKey: props.entityKey }
+            : undefined;
 
     /**
      * Callback to execute when the user press the link in editor edit mode.
+     * Outside of an editable editor the link navigates by itself.
      */
     const onLinkClick = () => {
-        window?.open(url)?.focus();
+        if (safeUrl && linkContext.isEditable) {
+            window?.open(safeUrl)?.focus();
+        }
     };
 
-    return (
-        <Link href={url} styles={linkStyles} onClick={onLinkClick}>
+    /**
+     * Open the link in a new window from the link card.
+     */
+    const onOpenLinkMouseDown = () => {
+        if (safeUrl) {
+            window?.open(safeUrl)?.focus();
+        }
+    };
+
+    /**
+     * Create the mouse down handler of a link card action, keeping the editor selection.
+     * @param {(linkRange: ILinkRange) => void} action The action to execute.
+     * @returns {(event: MouseEvent<unknown>) => void} The mouse down handler.
+     */
+    const onActionMouseDown = (action: (linkRange: ILinkRange) => void) => (event: MouseEvent<unknown>) => {
+        event.preventDefault();
+        if (linkRange) {
+            action(linkRange);
+        }
+    };
+
+    /**
+     * Render the content of the link hover card.
+     * @returns {React.ReactElement} The link card content.
+     */
+    const onRenderLinkCard = (): React.ReactElement => (
+        <LinkCardContainer palette={theme.palette}>
+            <LinkCardUrl>
+                <Text title={url}>{url}</Text>
+            </LinkCardUrl>
+            {linkContext.onEditLink && (
+                <IconButton title={strings.editLink} iconProps={{ iconName: 'Edit' }} onMouseDown={onActionMouseDown(linkContext.onEditLink)} />
+            )}
+            <IconButton title={strings.openLink} iconProps={{ iconName: 'OpenInNewWindow' }} disabled={!safeUrl} onMouseDown={onActionMouseDown(onOpenLinkMouseDown)} />
+            {linkContext.onRemoveLink && (
+                <IconButton title={strings.removeLink} iconProps={{ iconName: 'RemoveLink' }} onMouseDown={onActionMouseDown(linkContext.onRemoveLink)} />
+            )}
+        </LinkCardContainer>
+    );
+
+    /** The rendered link. */
+    const link = (
+        <Link href={safeUrl} title={title} target={target} rel={rel} styles={linkStyles} onClick={onLinkClick}>
             {linkText || props.children}
         </Link>
     );
+
+    if (!linkRange) {
+        return link;
+    }
+
+    return (
+        <HoverCard type={HoverCardType.plain} plainCardProps={{ onRenderPlainCard: onRenderLinkCard }} instantOpenOnClick={false} cardOpenDelay={300}>
+            {link}
+        </HoverCard>
+    );
 };
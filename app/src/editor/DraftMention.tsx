@@ -0,0 +1,44 @@
+import React, { FunctionComponent } from 'react';
+import { ContentState } from 'draft-js';
+import styled from 'styled-components';
+import { IPalette, useTheme } from '@fluentui/react';
+import { IMentionData } from './Mention';
+
+interface IThemed {
+    palette: IPalette;
+}
+
+const Mention = styled.span<IThemed>`
+    border-radius: 2px;
+    padding: 0 2px;
+    color: ${(props) => props.palette.themeDarkAlt};
+    background-color: ${(props) => props.palette.themeLighterAlt};
+`;
+
+export interface IDraftMentionProps {
+    /** The children to render. */
+    children: JSX.Element;
+    /** The current editor content state. */
+    contentState: ContentState;
+    /** The entity key. */
+    entityKey: string;
+}
+
+/**
+ * Custom render component to display mentions in the draft js editor.
+ * @param {IDraftMentionProps} props The draft mention properties.
+ * @returns {FunctionComponent} The mention component.
+ */
+export const DraftMention: FunctionComponent<IDraftMentionProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+
+    /** Get the mentioned item. */
+    const { id, url } = props.contentState.getEntity(props.entityKey).getData() as IMentionData;
+
+    return (
+        <Mention palette={theme.palette} title={url ?? id} data-mention-id={id}>
+            {props.children}
+        </Mention>
+    );
+};
@@ -0,0 +1,68 @@
+import React, { createContext, FunctionComponent, useContext, useEffect, useRef } from 'react';
+import styled from 'styled-components';
+import { IPalette, useTheme } from '@fluentui/react';
+import { ISearchMatch } from './Search';
+
+interface IThemed {
+    palette: IPalette;
+}
+
+interface IMatchHighlight extends IThemed {
+    /** Whether the match is the current one, transient so that it is not passed to the dom. */
+    $isCurrent: boolean;
+}
+
+const MatchHighlight = styled.span<IMatchHighlight>`
+    border-radius: 2px;
+    color: ${(props) => (props.$isCurrent ? props.palette.black : 'inherit')};
+    background-color: ${(props) => (props.$isCurrent ? props.palette.orangeLighter : props.palette.yellowLight)};
+`;
+
+/** The search state the text editor provides for the highlighted matches. */
+export interface IDraftSearchMatchContext {
+    /** The match the find and replace panel navigated to. */
+    currentMatch?: ISearchMatch;
+}
+
+/** Context to pass the current match from the text editor to the highlighted matches. */
+export const DraftSearchMatchContext = createContext<IDraftSearchMatchContext>({});
+
+export interface IDraftSearchMatchProps {
+    /** The children to render. */
+    children?: React.ReactNode;
+    /** The key of the block containing the match. */
+    blockKey?: string;
+    /** The start offset of the match. */
+    start?: number;
+}
+
+/**
+ * Custom render component to highlight matches of the find and replace search in the draft js editor.
+ * The current match is highlighted differently and scrolled into view.
+ * @param {IDraftSearchMatchProps} props The draft search match properties.
+ * @returns {FunctionComponent} The search match component.
+ */
+export const DraftSearchMatch: FunctionComponent<IDraftSearchMatchProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+    /** Access to the current match. */
+    const { currentMatch } = useContext(DraftSearchMatchContext);
+    /** Reference to the highlight element. */
+    const highlightRef = useRef<HTMLSpanElement>(null);
+
+    /** Whether this match is the current one. */
+    const isCurrent = !!currentMatch && currentMatch.blockKey === props.blockKey && currentMatch.start === props.start;
+
+    /** Scroll the current match into view. */
+    useEffect(() => {
+        if (isCurrent) {
+            highlightRef.current?.scrollIntoView?.({ block: 'nearest' });
+        }
+    }, [isCurrent]);
+
+    return (
+        <MatchHighlight ref={highlightRef} palette={theme.palette} $isCurrent={isCurrent}>
+            {props.children}
+        </MatchHighlight>
+    );
+};
@@ -0,0 +1,299 @@
+import React, { FunctionComponent, KeyboardEvent, MouseEvent, useContext, useRef, useState } from 'react';
+import { ContentBlock, ContentState } from 'draft-js';
+import styled from 'styled-components';
+import { IconButton, IPalette, useTheme } from '@fluentui/react';
+import { ITableData, normalizeTableRows } from './Table';
+import { TextEditorStringsContext } from './Strings';
+
+interface IThemed {
+    palette: IPalette;
+}
+
+const TableContainer = styled.div`
+    margin: 10px 0;
+    overflow-x: auto;
+`;
+
+const TableControls = styled.div`
+    display: flex;
+`;
+
+const Table = styled.table<IThemed>`
+    border-collapse: collapse;
+    min-width: 50%;
+
+    th,
+    td {
+        border: 1px solid ${(props) => props.palette.neutralTertiary};
+        padding: 0;
+    }
+
+    th {
+        background-color: ${(props) => props.palette.neutralLighter};
+    }
+`;
+
+const CellInput = styled.input<IThemed>`
+    width: 100%;
+    min-width: 80px;
+    box-sizing: border-box;
+    border: none;
+    padding: 5px;
+    font: inherit;
+    font-weight: inherit;
+    color: ${(props) => props.palette.black};
+    background-color: transparent;
+`;
+
+const CellText = styled.div<IThemed>`
+    min-width: 80px;
+    padding: 5px;
+    color: ${(props) => props.palette.black};
+`;
+
+/** The properties the text editor passes to the table block. */
+export interface IDraftTableBlockProps {
+    /** Callback to execute when the table content changes. */
+    onChange: (blockKey: string, data: ITableData) => void;
+    /** Callback to execute when the table should be removed. */
+    onRemove: (blockKey: string) => void;
+    /** Callback to execute when the user starts or stops editing a cell. */
+    onEditingChange: (isEditing: boolean) => void;
+}
+
+export interface IDraftTableProps {
+    /** The atomic block that holds the table entity. */
+    block: ContentBlock;
+    /** The current editor content state. */
+    contentState: ContentState;
+    /** The properties passed by the text editor. The table is read only without them. */
+    blockProps?: IDraftTableBlockProps;
+}
+
+/**
+ * Custom render component to display and edit tables in the draft js editor.
+ * Without block properties, e.g. in read only mode, the cells are displayed as text without controls.
+ * @param {IDraftTableProps} props The draft table properties.
+ * @returns {FunctionComponent} The table component.
+ */
+export const DraftTable: FunctionComponent<IDraftTableProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+    /** The texts of the editor. */
+    const strings = useContext(TextEditorStringsContext);
+
+    /** The cell that was focused last, used as anchor for row and column actions. */
+    const [activeCell, setActiveCell] = useState<{ row: number; column: number }>({ row: 0, column: 0 });
+    /** The text of the cell that is being edited. It is passed to the text editor when the cell loses the focus, so that each cell edit is a single undo step. */
+    const [editedCell, setEditedCell] = useState<{ row: number; column: number; value: string } | undefined>(undefined);
+
+    /** Reference to the table element. */
+    const tableRef = useRef<HTMLTableElement>(null);
+
+    /** The stored table rows. */
+    const storedRows = normalizeTableRows((props.contentState.getEntity(props.block.getEntityAt(0)).getData() as ITableData).rows);
+    /** The current table rows, including the text of the edited cell. */
+    const rows = editedCell
+        ? storedRows.map((cells, rowIndex) => (rowIndex === editedCell.row ? cells.map((cell, column) => (column === editedCell.column ? editedCell.value : cell)) : cells))
+        : storedRows;
+    /** The number of columns of the table. */
+    const columnCount = rows[0].length;
+
+    /**
+     * Focus the input of the given cell.
+     * @param {number} row The row index of the cell.
+     * @param {number} column The column index of the cell.
+     */
+    const focusCell = (row: number, column: number) => {
+        setTimeout(() => tableRef.current?.querySelector<HTMLInputElement>(`input[data-row="${row}"][data-column="${column}"]`)?.focus(), 0);
+    };
+
+    /**
+     * Pass the modified rows to the text editor, including the text of the edited cell.
+     * @param {string[][]} newRows The modified table rows.
+     */
+    const updateRows = (newRows: string[][]) => {
+        setEditedCell(undefined);
+        props.blockProps?.onChange(props.block.getKey(), { rows: newRows });
+    };
+
+    /**
+     * Pass the text of the edited cell to the text editor, if it changed.
+     */
+    const commitEditedCell = () => {
+        if (editedCell && editedCell.value !== storedRows[editedCell.row]?.[editedCell.column]) {
+            updateRows(rows);
+        } else {
+            setEditedCell(undefined);
+        }
+    };
+
+    /**
+     * Insert an empty row below the active cell.
+     */
+    const addRow = () => {
+        const newRows = [...rows];
+        newRows.splice(
+            activeCell.row + 1,
+            0,
+            Array.from({ length: columnCount }, () => ''),
+        );
+        updateRows(newRows);
+        focusCell(activeCell.row + 1, activeCell.column);
+    };
+
+    /**
+     * Remove the row of the active cell. The header row is kept.
+     */
+    const removeRow = () => {
+        if (rows.length <= 1) {
+            return;
+        }
+        const rowToRemove = Math.max(activeCell.row, 1);
+        updateRows(rows.filter((_, rowIndex) => rowIndex !== rowToRemove));
+        setActiveCell({ row: Math.min(rowToRemove, rows.length - 2), column: activeCell.column });
+    };
+
+    /**
+     * Insert an empty column right of the active cell.
+     */
+    const addColumn = () => {
+        updateRows(
+            rows.map((cells) => {
+                const newCells = [...cells];
+                newCells.splice(activeCell.column + 1, 0, '');
+                return newCells;
+            }),
+        );
+        focusCell(activeCell.row, activeCell.column + 1);
+    };
+
+    /**
+     * Remove the column of the active cell. The last column is kept.
+     */
+    const removeColumn = () => {
+        if (columnCount <= 1) {
+            return;
+        }
+        updateRows(rows.map((cells) => cells.filter((_, columnIndex) => columnIndex !== activeCell.column)));
+        setActiveCell({ row: activeCell.row, column: Math.min(activeCell.column, columnCount - 2) });
+    };
+
+    /**
+     * Move between the cells with tab and shift + tab. Pressing tab in the last cell appends a new row.
+     * @param {KeyboardEvent<HTMLInputElement>} event The occurred keyboard event.
+     * @param {number} row The row index of the cell.
+     * @param {number} column The column index of the cell.
+     */
+    const onCellKeyDown = (event: KeyboardEvent<HTMLInputElement>, row: number, column: number) => {
+        event.stopPropagation();
+        if (event.key !== 'Tab') {
+            return;
+        }
+        event.preventDefault();
+        const cellIndex = row * columnCount + column + (event.shiftKey ? -1 : 1);
+        if (cellIndex < 0) {
+            return;
+        }
+        if (cellIndex >= rows.length * columnCount) {
+            updateRows([...rows, Array.from({ length: columnCount }, () => '')]);
+        }
+        focusCell(Math.floor(cellIndex / columnCount), cellIndex % columnCount);
+    };
+
+    /**
+     * Render the input of a single cell.
+     * @param {string} cell The cell text.
+     * @param {number} row The row index of the cell.
+     * @param {number} column The column index of the cell.
+     * @returns {React.ReactElement} The cell input.
+     */
+    const renderCellInput = (cell: string, row: number, column: number): React.ReactElement => (
+        <CellInput
+            palette={theme.palette}
+            value={cell}
+            data-row={row}
+            data-column={column}
+            onChange={(event) => setEditedCell({ row, column, value: event.target.value })}
+            onKeyDown={(event) => onCellKeyDown(event, row, column)}
+            onFocus={() => {
+                setActiveCell({ row, column });
+                props.blockProps?.onEditingChange(true);
+            }}
+            onBlur={() => {
+                commitEditedCell();
+                props.blockProps?.onEditingChange(false);
+            }}
+        />
+    );
+
+    /**
+     * Render a single cell, as text if the table is read only.
+     * @param {string} cell The cell text.
+     * @param {number} row The row index of the cell.
+     * @param {number} column The column index of the cell.
+     * @returns {React.ReactElement} The cell content.
+     */
+    const renderCell = (cell: string, row: number, column: number): React.ReactElement =>
+        props.blockProps ? renderCellInput(cell, row, column) : <CellText palette={theme.palette}>{cell}</CellText>;
+
+    /**
+     * Create the mouse down handler of a table control button.
+     * @param {() => void} action The action to execute.
+     * @returns {(event: MouseEvent<unknown>) => void} The mouse down handler.
+     */
+    const onControlMouseDown = (action: () => void) => (event: MouseEvent<unknown>) => {
+        event.preventDefault();
+        action();
+    };
+
+    /** Styles of the table control buttons. */
+    const controlButtonStyles = { root: { color: theme.palette.black } };
+
+    return (
+        <TableContainer onClick={(event) => event.stopPropagation()}>
+            {props.blockProps && (
+                <TableControls>
+                    <IconButton styles={controlButtonStyles} title={strings.insertRowBelow} iconProps={{ iconName: 'InsertRowsBelow' }} onMouseDown={onControlMouseDown(addRow)} />
+                    <IconButton styles={controlButtonStyles} title={strings.deleteRow} iconProps={{ iconName: 'DeleteRows' }} onMouseDown={onControlMouseDown(removeRow)} />
+                    <IconButton
+                        styles={controlButtonStyles}
+                        title={strings.insertColumnRight}
+                        iconProps={{ iconName: 'InsertColumnsRight' }}
+                        onMouseDown={onControlMouseDown(addColumn)}
+                    />
+                    <IconButton
+                        styles={controlButtonStyles}
+                        title={strings.deleteColumn}
+                        iconProps={{ iconName: 'DeleteColumns' }}
+                        onMouseDown={onControlMouseDown(removeColumn)}
+                    />
+                    <IconButton
+                        styles={controlButtonStyles}
+                        title={strings.deleteTable}
+                        iconProps={{ iconName: 'DeleteTable' }}
+                        onMouseDown={onControlMouseDown(() => props.blockProps?.onRemove(props.block.getKey()))}
+                    />
+                </TableControls>
+            )}
+            <Table palette={theme.palette} ref={tableRef}>
+                <thead>
+                    <tr>
+                        {rows[0].map((cell, column) => (
+                            <th key={column}>{renderCell(cell, 0, column)}</th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.slice(1).map((cells, rowIndex) => (
+                        <tr key={rowIndex + 1}>
+                            {cells.map((cell, column) => (
+                                <td key={column}>{renderCell(cell, rowIndex + 1, column)}</td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </Table>
+        </TableContainer>
+    );
+};
@@ -1,5 +1,10 @@
-import { EditorState, RichUtils } from 'draft-js';
-import { createEditorStateFromContent } from './Parser';
+import { AtomicBlockUtils, BlockMap, CharacterMetadata, ContentBlock, ContentState, EditorState, Modifier, RichUtils, SelectionState } from 'draft-js';
+import { getBlockAlignment, TextAlignment } from './Alignment';
+import { IImageData, imageEntityType } from './Image';
+import { defaultLinkData, ILinkData, ILinkRange, linkEntityType } from './Link';
+import { IMentionData, IMentionItem, IMentionQuery, mentionEntityType } from './Mention';
+import { isSafeUrl } from './Sanitizer';
+import { createEmptyTableRows, ITableData, tableEntityType } from './Table';
 
 /**
  * Remove all links in the current selection.
@@ -14,25 +19,150 @@ export const removeLink = (editorState: EditorState, setEditorState: (editorStat
 };
 
 /**
- * Add a link to the current selection.
+ * Add a link to the current selection. Urls with a scheme that is not allowed are ignored.
+ * If a display text is given that differs from the selected text, the selection is replaced by the linked text.
+ * Without a selection, the display text or else the url is inserted as link.
  * @param {EditorState} editorState The current editor state to modify.
  * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
- * @param {string} url The url to use to create the link.
+ * @param {ILinkData} link The url and attributes to use to create the link.
+ * @param {string} text The optional text to display for the link.
  */
-export const addLink = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, url: string) => {
+export const addLink = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, link: ILinkData, text?: string) => {
+    if (!isSafeUrl(link.url)) {
+        return;
+    }
     const contentState = editorState.getCurrentContent();
-    const contentStateWithEntity = contentState.createEntity('LINK', 'MUTABLE', {
-        url: url,
-        target: '_blank',
-    });
+    const contentStateWithEntity = contentState.createEntity(linkEntityType, 'MUTABLE', { ...defaultLinkData, ...link });
     const entityKey = contentStateWithEntity.getLastCreatedEntityKey();
     const selection = editorState.getSelection();
-    let newState = RichUtils.toggleLink(editorState, selection, entityKey);
+    if (selection.isCollapsed() || (text && text !== getSelectedText(editorState))) {
+        const newContentState = Modifier.replaceText(contentStateWithEntity, selection, text || link.url, editorState.getCurrentInlineStyle(), entityKey);
+        setEditorState(EditorState.push(editorState, newContentState, 'insert-characters'));
+        return;
+    }
+    const newState = RichUtils.toggleLink(editorState, selection, entityKey);
     if (!newState) {
         return;
     }
-    newState = createEditorStateFromContent(newState.getCurrentContent());
-    setEditorState(newState);
+    setEditorState(EditorState.push(editorState, newState.getCurrentContent(), 'apply-entity'));
+};
+
+/**
+ * Get the text of the current selection, if it is within a single block.
+ * @param {EditorState} editorState The current editor state.
+ * @returns {string} The selected text or an empty string.
+ */
+export const getSelectedText = (editorState: EditorState): string => {
+    const selection = editorState.getSelection();
+    if (selection.getStartKey() !== selection.getEndKey()) {
+        return '';
+    }
+    const block = editorState.getCurrentContent().getBlockForKey(selection.getStartKey());
+    return block.getText().slice(selection.getStartOffset(), selection.getEndOffset());
+};
+
+/**
+ * Get the link at the start of the current selection.
+ * @param {EditorState} editorState The current editor state.
+ * @returns {ILinkRange | undefined} The position of the link or undefined if the selection is not within a link.
+ */
+export const getLinkAtSelection = (editorState: EditorState): ILinkRange | undefined => {
+    const selection = editorState.getSelection();
+    const contentState = editorState.getCurrentContent();
+    const block = contentState.getBlockForKey(selection.getStartKey());
+    const offset = selection.getStartOffset();
+    // Look at the character before a collapsed cursor, so that the link is found when the cursor is placed at its end.
+    const entityKey = block.getEntityAt(offset) ?? (selection.isCollapsed() && offset > 0 ? block.getEntityAt(offset - 1) : null);
+    if (!entityKey || contentState.getEntity(entityKey).getType() !== linkEntityType) {
+        return undefined;
+    }
+    let linkRange: ILinkRange | undefined;
+    block.findEntityRanges(
+        (character) => character.getEntity() === entityKey,
+        (start, end) => {
+            if (!linkRange && start <= offset && offset <= end) {
+                linkRange = { blockKey: block.getKey(), start, end, entityKey };
+            }
+        },
+    );
+    return linkRange;
+};
+
+/**
+ * Get a selection spanning the given link.
+ * @param {ILinkRange} linkRange The position of the link.
+ * @returns {SelectionState} The selection of the link text.
+ */
+const getLinkSelection = (linkRange: ILinkRange): SelectionState => {
+    return SelectionState.createEmpty(linkRange.blockKey).merge({ anchorOffset: linkRange.start, focusOffset: linkRange.end }) as SelectionState;
+};
+
+/**
+ * Change the url, attributes and optionally the text of an existing link. Urls with a scheme that is not allowed are ignored.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {ILinkRange} linkRange The position of the link to update.
+ * @param {ILinkData} link The new url and attributes of the link.
+ * @param {string} text The optional new text to display for the link.
+ */
+export const updateLink = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, linkRange: ILinkRange, link: ILinkData, text?: string) => {
+    if (!isSafeUrl(link.url)) {
+        return;
+    }
+    const contentState = editorState.getCurrentContent();
+    const contentStateWithEntity = contentState.createEntity(linkEntityType, 'MUTABLE', link);
+    const entityKey = contentStateWithEntity.getLastCreatedEntityKey();
+    const linkSelection = getLinkSelection(linkRange);
+    const currentText = contentState.getBlockForKey(linkRange.blockKey).getText().slice(linkRange.start, linkRange.end);
+    if (text && text !== currentText) {
+        const inlineStyle = contentState.getBlockForKey(linkRange.blockKey).getInlineStyleAt(linkRange.start);
+        const newContentState = Modifier.replaceText(contentStateWithEntity, linkSelection, text, inlineStyle, entityKey);
+        setEditorState(EditorState.push(editorState, newContentState, 'insert-characters'));
+        return;
+    }
+    const newContentState = Modifier.applyEntity(contentStateWithEntity, linkSelection, entityKey);
+    setEditorState(EditorState.forceSelection(EditorState.push(editorState, newContentState, 'apply-entity'), editorState.getSelection()));
+};
+
+/**
+ * Remove the given link, keeping its text.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {ILinkRange} linkRange The position of the link to remove.
+ */
+export const removeLinkRange = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, linkRange: ILinkRange) => {
+    const newContentState = Modifier.applyEntity(editorState.getCurrentContent(), getLinkSelection(linkRange), null);
+    setEditorState(EditorState.forceSelection(EditorState.push(editorState, newContentState, 'apply-entity'), editorState.getSelection()));
+};
+
+/** Inline styles that exclude each other, since text cannot be raised and lowered at once. */
+const exclusiveInlineStyles: { [inlineStyle: string]: string[] } = {
+    SUPERSCRIPT: ['SUBSCRIPT'],
+    SUBSCRIPT: ['SUPERSCRIPT'],
+};
+
+/**
+ * Toggle an inline style in the current selection like draft js, but remove the styles it excludes when applying it, e.g. subscript when applying superscript.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {string} inlineStyle The style name to toggle.
+ * @returns {EditorState} The editor state with the toggled style.
+ */
+export const toggleInlineStyle = (editorState: EditorState, inlineStyle: string): EditorState => {
+    const excludedStyles = exclusiveInlineStyles[inlineStyle] ?? [];
+    const currentStyle = editorState.getCurrentInlineStyle();
+    if (!excludedStyles.length || currentStyle.has(inlineStyle)) {
+        return RichUtils.toggleInlineStyle(editorState, inlineStyle);
+    }
+    const selection = editorState.getSelection();
+    if (selection.isCollapsed()) {
+        const style = excludedStyles.reduce((currentOverride, excludedStyle) => currentOverride.remove(excludedStyle), currentStyle).add(inlineStyle);
+        return EditorState.setInlineStyleOverride(editorState, style);
+    }
+    const contentState = excludedStyles.reduce(
+        (currentContentState, excludedStyle) => Modifier.removeInlineStyle(currentContentState, selection, excludedStyle),
+        editorState.getCurrentContent(),
+    );
+    return EditorState.push(editorState, Modifier.applyInlineStyle(contentState, selection, inlineStyle), 'change-inline-style');
 };
 
 /**
@@ -44,15 +174,62 @@ export const addLink = (editorState: EditorState, setEditorState: (editorState:
 export const applyInlineStyle = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, inlineStyle: string) => {
     const selection = editorState.getSelection();
     if (!selection.isCollapsed()) {
-        setEditorState(RichUtils.toggleInlineStyle(editorState, inlineStyle));
+        setEditorState(toggleInlineStyle(editorState, inlineStyle));
     } else {
-        const newState = RichUtils.toggleInlineStyle(editorState, inlineStyle);
+        const newState = toggleInlineStyle(editorState, inlineStyle);
         if (newState) {
             setEditorState(newState);
         }
     }
 };
 
+/**
+ * Replace the inline styles with the given prefix, e.g. the text color, in the current selection.
+ * A collapsed selection changes the styles of the text typed next.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {string} prefix The prefix of the inline styles to replace.
+ * @param {string | undefined} value The value of the new inline style or undefined to only remove the styles.
+ */
+export const applyPrefixedInlineStyle = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, prefix: string, value: string | undefined) => {
+    const selection = editorState.getSelection();
+    const newStyleName = value !== undefined ? prefix + value : undefined;
+    if (selection.isCollapsed()) {
+        const inlineStyle = editorState
+            .getCurrentInlineStyle()
+            .filter((styleName) => !styleName?.startsWith(prefix))
+            .toOrderedSet();
+        setEditorState(EditorState.setInlineStyleOverride(editorState, newStyleName ? inlineStyle.add(newStyleName) : inlineStyle));
+        return;
+    }
+    const contentState = editorState.getCurrentContent();
+    const selectedStyleNames = new Set<string>();
+    contentState
+        .getBlockMap()
+        .skipUntil((_, key) => key === selection.getStartKey())
+        .takeUntil((_, key) => key === contentState.getKeyAfter(selection.getEndKey()))
+        .forEach((block) => {
+            const start = block?.getKey() === selection.getStartKey() ? selection.getStartOffset() : 0;
+            const end = block?.getKey() === selection.getEndKey() ? selection.getEndOffset() : block?.getLength();
+            block
+                ?.getCharacterList()
+                .slice(start, end)
+                .forEach((character) => {
+                    character?.getStyle().forEach((styleName) => {
+                        if (styleName?.startsWith(prefix)) {
+                            selectedStyleNames.add(styleName);
+                        }
+                    });
+                });
+        });
+    const contentWithoutStyles = Array.from(selectedStyleNames).reduce(
+        (currentContentState, styleName) => Modifier.removeInlineStyle(currentContentState, selection, styleName),
+        contentState,
+    );
+    const newContentState = newStyleName ? Modifier.applyInlineStyle(contentWithoutStyles, selection, newStyleName) : contentWithoutStyles;
+    setEditorState(EditorState.push(editorState, newContentState, 'change-inline-style'));
+};
+
 /**
  * General function to apply a block style to the current draft-js editor state.
  * @param {EditorState} editorState The current editor state to modify.
@@ -63,3 +240,220 @@ export const applyBlockStyle = (editorState: EditorState, setEditorState: (edito
     // Toggle the block style.
     setEditorState(RichUtils.toggleBlockType(editorState, blockStyle));
 };
+
+/**
+ * Insert a new table with empty cells as atomic block at the current selection.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {number} rowCount The number of rows including the header row.
+ * @param {number} columnCount The number of columns.
+ */
+export const insertTable = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, rowCount = 3, columnCount = 3) => {
+    const tableData: ITableData = { rows: createEmptyTableRows(rowCount, columnCount) };
+    const contentState = editorState.getCurrentContent();
+    const contentStateWithEntity = contentState.createEntity(tableEntityType, 'IMMUTABLE', tableData);
+    const entityKey = contentStateWithEntity.getLastCreatedEntityKey();
+    const newState = EditorState.set(editorState, { currentContent: contentStateWithEntity });
+    setEditorState(AtomicBlockUtils.insertAtomicBlock(newState, entityKey, ' '));
+};
+
+/**
+ * Insert an image as atomic block at the current selection.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {IImageData} imageData The source and alternative text of the image.
+ */
+export const insertImage = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, imageData: IImageData) => {
+    const contentState = editorState.getCurrentContent();
+    const contentStateWithEntity = contentState.createEntity(imageEntityType, 'IMMUTABLE', imageData);
+    const entityKey = contentStateWithEntity.getLastCreatedEntityKey();
+    const newState = EditorState.set(editorState, { currentContent: contentStateWithEntity });
+    setEditorState(AtomicBlockUtils.insertAtomicBlock(newState, entityKey, ' '));
+};
+
+/**
+ * Replace the entity data of an atomic block.
+ * A new entity is created so that the editor notices the changed block and the change can be undone.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {string} blockKey The key of the atomic block.
+ * @param {object} data The new entity data.
+ */
+export const updateAtomicBlockData = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, blockKey: string, data: object) => {
+    const contentState = editorState.getCurrentContent();
+    const block = contentState.getBlockForKey(blockKey);
+    const entityKey = block?.getEntityAt(0);
+    if (!entityKey) {
+        return;
+    }
+    const contentStateWithEntity = contentState.createEntity(contentState.getEntity(entityKey).getType(), 'IMMUTABLE', data);
+    const blockSelection = SelectionState.createEmpty(blockKey).merge({ focusOffset: block.getLength() }) as SelectionState;
+    const newContentState = Modifier.applyEntity(contentStateWithEntity, blockSelection, contentStateWithEntity.getLastCreatedEntityKey());
+    setEditorState(EditorState.push(editorState, newContentState, 'apply-entity'));
+};
+
+/**
+ * Remove the content of a block and turn it into an empty paragraph, e.g. to delete an atomic block.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {string} blockKey The key of the block to remove.
+ */
+export const removeBlock = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, blockKey: string) => {
+    const contentState = editorState.getCurrentContent();
+    const block = contentState.getBlockForKey(blockKey);
+    if (!block) {
+        return;
+    }
+    const blockSelection = SelectionState.createEmpty(blockKey).merge({ focusOffset: block.getLength() }) as SelectionState;
+    let newContentState = Modifier.removeRange(contentState, blockSelection, 'backward');
+    newContentState = Modifier.setBlockType(newContentState, newContentState.getSelectionAfter(), 'unstyled');
+    setEditorState(EditorState.push(editorState, newContentState, 'remove-range'));
+};
+
+/**
+ * Set the language of all code blocks in the current selection.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {string} language The identifier of the language or an empty string for plain text.
+ */
+export const setCodeBlockLanguage = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, language: string) => {
+    const selection = editorState.getSelection();
+    const contentState = editorState.getCurrentContent();
+    const endKey = selection.getEndKey();
+    let isInSelection = false;
+    const blockMap = contentState.getBlockMap().map((block) => {
+        if (!block) {
+            return block;
+        }
+        isInSelection = isInSelection || block.getKey() === selection.getStartKey();
+        const isCodeBlockInSelection = isInSelection && block.getType() === 'code-block';
+        if (block.getKey() === endKey) {
+            isInSelection = false;
+        }
+        return isCodeBlockInSelection ? (block.merge({ data: block.getData().set('language', language) }) as ContentBlock) : block;
+    }) as BlockMap;
+    const newContentState = contentState.merge({ blockMap, selectionBefore: selection, selectionAfter: selection }) as ContentState;
+    setEditorState(EditorState.push(editorState, newContentState, 'change-block-data'));
+};
+
+/**
+ * Toggle the alignment of all selected blocks. If all selected blocks already have the alignment, it is removed.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {TextAlignment} alignment The alignment to toggle.
+ */
+export const toggleBlockAlignment = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, alignment: TextAlignment) => {
+    const selection = editorState.getSelection();
+    const contentState = editorState.getCurrentContent();
+    const selectedBlocks = contentState
+        .getBlockMap()
+        .skipUntil((_, key) => key === selection.getStartKey())
+        .takeUntil((_, key) => key === contentState.getKeyAfter(selection.getEndKey()));
+    const isAligned = selectedBlocks.every((block) => !!block && getBlockAlignment(block) === alignment);
+    const alignedBlocks = selectedBlocks.map((block) => {
+        if (!block) {
+            return block;
+        }
+        return block.merge({ data: isAligned ? block.getData().delete('textAlign') : block.getData().set('textAlign', alignment) }) as ContentBlock;
+    }) as BlockMap;
+    const blockMap = contentState.getBlockMap().merge(alignedBlocks);
+    const newContentState = contentState.merge({ blockMap, selectionBefore: selection, selectionAfter: selection }) as ContentState;
+    setEditorState(EditorState.push(editorState, newContentState, 'change-block-data'));
+};
+
+/**
+ * Remove all inline styles of the selected text and turn the selected blocks into paragraphs without indent, alignment or other block data.
+ * Atomic blocks and entities like links and mentions are kept. A collapsed selection also removes the styles of the text typed next.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ */
+export const clearFormatting = (editorState: EditorState, setEditorState: (editorState: EditorState) => void) => {
+    const selection = editorState.getSelection();
+    const contentState = editorState.getCurrentContent();
+    const clearedBlocks = contentState
+        .getBlockMap()
+        .skipUntil((_, key) => key === selection.getStartKey())
+        .takeUntil((_, key) => key === contentState.getKeyAfter(selection.getEndKey()))
+        .map((block) => {
+            if (!block || block.getType() === 'atomic') {
+                return block;
+            }
+            const start = block.getKey() === selection.getStartKey() ? selection.getStartOffset() : 0;
+            const end = block.getKey() === selection.getEndKey() ? selection.getEndOffset() : block.getLength();
+            const characterList = block.getCharacterList().map((character, index) => {
+                if (!character || index === undefined || index < start || index >= end) {
+                    return character;
+                }
+                return CharacterMetadata.create({ entity: character.getEntity() });
+            });
+            return block.merge({ type: 'unstyled', depth: 0, data: block.getData().clear(), characterList }) as ContentBlock;
+        }) as BlockMap;
+    const blockMap = contentState.getBlockMap().merge(clearedBlocks);
+    const newContentState = contentState.merge({ blockMap, selectionBefore: selection, selectionAfter: selection }) as ContentState;
+    const newState = EditorState.push(editorState, newContentState, 'change-block-type');
+    setEditorState(selection.isCollapsed() ? EditorState.setInlineStyleOverride(newState, editorState.getCurrentInlineStyle().clear()) : newState);
+};
+
+/**
+ * Insert a line break into the current code block. On an empty last line, the code block is left and a new paragraph is started instead.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ */
+export const insertCodeBlockNewline = (editorState: EditorState, setEditorState: (editorState: EditorState) => void) => {
+    const selection = editorState.getSelection();
+    const block = editorState.getCurrentContent().getBlockForKey(selection.getStartKey());
+    const isAtEmptyLastLine = selection.isCollapsed() && selection.getStartOffset() === block.getLength() && block.getText().endsWith('\n');
+    if (!isAtEmptyLastLine) {
+        setEditorState(RichUtils.insertSoftNewline(editorState));
+        return;
+    }
+    const newlineSelection = selection.merge({ anchorOffset: block.getLength() - 1, focusOffset: block.getLength(), isBackward: false }) as SelectionState;
+    let contentState = Modifier.removeRange(editorState.getCurrentContent(), newlineSelection, 'backward');
+    contentState = Modifier.splitBlock(contentState, contentState.getSelectionAfter());
+    contentState = Modifier.setBlockType(contentState, contentState.getSelectionAfter(), 'unstyled');
+    setEditorState(EditorState.push(editorState, contentState, 'split-block'));
+};
+
+/**
+ * Toggle the checked state of a checkable list item.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {string} blockKey The key of the checkable list item block.
+ */
+export const toggleCheckableListItem = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, blockKey: string) => {
+    const contentState = editorState.getCurrentContent();
+    const block = contentState.getBlockForKey(blockKey);
+    if (!block) {
+        return;
+    }
+    const selection = editorState.getSelection();
+    const newBlock = block.merge({ data: block.getData().set('checked', !block.getData().get('checked')) }) as ContentBlock;
+    const newContentState = contentState.merge({
+        blockMap: contentState.getBlockMap().set(blockKey, newBlock),
+        selectionBefore: selection,
+        selectionAfter: selection,
+    }) as ContentState;
+    setEditorState(EditorState.push(editorState, newContentState, 'change-block-data'));
+};
+
+/**
+ * Replace a typed mention query with a mention of the given item, followed by a space.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {IMentionQuery} mentionQuery The typed trigger and query to replace.
+ * @param {IMentionItem} item The item to mention.
+ */
+export const insertMention = (editorState: EditorState, setEditorState: (editorState: EditorState) => void, mentionQuery: IMentionQuery, item: IMentionItem) => {
+    const mention: IMentionData = { id: item.id, name: item.name, trigger: mentionQuery.trigger };
+    if (item.url) {
+        mention.url = item.url;
+    }
+    const contentStateWithEntity = editorState.getCurrentContent().createEntity(mentionEntityType, 'IMMUTABLE', mention);
+    const querySelection = SelectionState.createEmpty(mentionQuery.blockKey).merge({ anchorOffset: mentionQuery.start, focusOffset: mentionQuery.end }) as SelectionState;
+    const inlineStyle = editorState.getCurrentInlineStyle();
+    const entityKey = contentStateWithEntity.getLastCreatedEntityKey();
+    let contentState = Modifier.replaceText(contentStateWithEntity, querySelection, `${mention.trigger}${mention.name}`, inlineStyle, entityKey);
+    contentState = Modifier.insertText(contentState, contentState.getSelectionAfter(), ' ', inlineStyle);
+    // Apply as own undo step, so that undo restores the typed query.
+    setEditorState(EditorState.push(editorState, contentState, 'apply-entity'));
+};
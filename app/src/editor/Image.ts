@@ -0,0 +1,101 @@
+import { escapeHtml } from './Table';
+
+/** The entity type used for image blocks. */
+export const imageEntityType = 'IMAGE';
+
+/** The entity data stored for an image block. */
+export interface IImageData {
+    /** The url of the image. */
+    src: string;
+    /** The alternative text of the image. */
+    alt?: string;
+    /** The optional title of the image. */
+    title?: string;
+}
+
+/** Matches a markdown image, e.g. `![alt](src "title")` or `![alt](<src with spaces>)`. */
+const markdownImageRegex = /!\[((?:\\.|[^\]\\])*)\]\(\s*(?:<([^>]+)>|([^)\s]+))(?:\s+"((?:\\.|[^"\\])*)")?\s*\)/g;
+
+/**
+ * Convert the given image data into a markdown image.
+ * @param {IImageData} image The image data to convert.
+ * @returns {string} The markdown representation of the image.
+ */
+export const imageToMarkdown = (image: IImageData): string => {
+    const alt = (image.alt ?? '').replace(/([[\]])/g, '\\$1');
+    const src = /\s/.test(image.src) ? `<${image.src}>` : image.src;
+    const title = image.title ? ` "${image.title.replace(/"/g, '\\"')}"` : '';
+    return `![${alt}](${src}${title})`;
+};
+
+/**
+ * Convert the given image data into a html figure, keeping the title that the default html export drops.
+ * @param {IImageData} image The image data to convert.
+ * @returns {string} The html representation of the image.
+ */
+export const imageToHtml = (image: IImageData): string => {
+    const alt = image.alt ? ` alt="${escapeHtml(image.alt)}"` : '';
+    const title = image.title ? ` title="${escapeHtml(image.title)}"` : '';
+    return `<figure><img src="${escapeHtml(image.src)}"${alt}${title}/></figure>`;
+};
+
+/**
+ * Get the image data of an imported html img element, including the title that the default html import drops.
+ * @param {Element} element The imported html element.
+ * @returns {IImageData | undefined} The image data or undefined if the element is no image with a source.
+ */
+export const getHtmlImageData = (element: Element): IImageData | undefined => {
+    const src = element.tagName === 'IMG' ? element.getAttribute('src') : null;
+    if (!src) {
+        return undefined;
+    }
+    const image: IImageData = { src };
+    const alt = element.getAttribute('alt');
+    const title = element.getAttribute('title');
+    if (alt) {
+        image.alt = alt;
+    }
+    if (title) {
+        image.title = title;
+    }
+    return image;
+};
+
+/**
+ * Replace all markdown images in the given text.
+ * @param {string} text The markdown text to search.
+ * @param {(image: IImageData) => string} replacer The function that returns the replacement for an image.
+ * @returns {string} The text with replaced images.
+ */
+export const replaceMarkdownImages = (text: string, replacer: (image: IImageData) => string): string => {
+    return text.replace(markdownImageRegex, (_, alt: string, angleBracketSrc?: string, src?: string, title?: string) => {
+        const image: IImageData = { src: angleBracketSrc ?? src ?? '', alt: alt.replace(/\\([[\]])/g, '$1') };
+        if (title) {
+            image.title = title.replace(/\\"/g, '"');
+        }
+        return replacer(image);
+    });
+};
+
+/**
+ * Check whether the given file is an image.
+ * @param {Blob} file The file to check.
+ * @returns {boolean} Whether the file is an image.
+ */
+export const isImageFile = (file: Blob): boolean => {
+    return file.type.startsWith('image/');
+};
+
+/**
+ * Read the given file as data url.
+ * @param {Blob} file The file to read.
+ * @returns {Promise<string>} The data url of the file.
+ */
+export const readFileAsDataUrl = (file: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+};
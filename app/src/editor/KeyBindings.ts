@@ -0,0 +1,177 @@
+import { KeyboardEvent } from 'react';
+import { getDefaultKeyBinding } from 'draft-js';
+import { ITextEditorStrings } from './Strings';
+
+/** The commands of the text editor that can be bound to key combos. */
+export type EditorCommand =
+    | 'bold'
+    | 'italic'
+    | 'underline'
+    | 'strikethrough'
+    | 'code'
+    | 'superscript'
+    | 'subscript'
+    | 'highlight'
+    | 'clear-formatting'
+    | 'link'
+    | 'paragraph'
+    | 'header-one'
+    | 'header-two'
+    | 'header-three'
+    | 'header-four'
+    | 'header-five'
+    | 'header-six'
+    | 'unordered-list'
+    | 'ordered-list'
+    | 'check-list'
+    | 'blockquote'
+    | 'code-block'
+    | 'undo'
+    | 'redo'
+    | 'open-find'
+    | 'open-replace'
+    | 'focus-toolbar';
+
+/**
+ * Map from key combos to the commands they execute. A key combo lists the modifiers and the key separated by `+`, e.g. `Mod+Shift+7`.
+ * The modifiers are `Mod` (control on windows / linux, command on mac), `Ctrl`, `Meta`, `Alt` and `Shift`.
+ * The key is the value of the keyboard event, e.g. `B` or `F10`. Letters and digits also match the physical key.
+ */
+export interface IKeyBindingMap {
+    [keyCombo: string]: EditorCommand;
+}
+
+/** The key bindings of the text editor if no key bindings are configured. */
+export const defaultKeyBindings: IKeyBindingMap = {
+    'Mod+B': 'bold',
+    'Mod+I': 'italic',
+    'Mod+U': 'underline',
+    'Mod+Shift+X': 'strikethrough',
+    'Mod+J': 'code',
+    'Mod+.': 'superscript',
+    'Mod+,': 'subscript',
+    'Mod+Shift+H': 'highlight',
+    'Mod+\\': 'clear-formatting',
+    'Mod+K': 'link',
+    'Mod+Alt+0': 'paragraph',
+    'Mod+Alt+1': 'header-one',
+    'Mod+Alt+2': 'header-two',
+    'Mod+Alt+3': 'header-three',
+    'Mod+Alt+4': 'header-four',
+    'Mod+Alt+5': 'header-five',
+    'Mod+Alt+6': 'header-six',
+    'Mod+Shift+7': 'ordered-list',
+    'Mod+Shift+8': 'unordered-list',
+    'Mod+Shift+9': 'blockquote',
+    'Mod+Z': 'undo',
+    'Mod+Y': 'redo',
+    'Mod+Shift+Z': 'redo',
+    'Mod+F': 'open-find',
+    'Mod+H': 'open-replace',
+    'Alt+F10': 'focus-toolbar',
+};
+
+/** The commands draft js binds by itself. They are only executed if a key combo of the key binding map is bound to them. */
+const draftBoundCommands: string[] = ['bold', 'italic', 'underline', 'strikethrough', 'code', 'undo', 'redo'];
+
+/** The command of key combos that draft js binds by itself but the key binding map does not. The editor handles it by doing nothing. */
+export const unboundCommand = 'unbound';
+
+/**
+ * Check whether the editor runs on an apple platform, where the command key replaces the control key in shortcuts.
+ * @returns {boolean} Whether the platform is mac or iOS.
+ */
+export const isApplePlatform = (): boolean => {
+    return typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent);
+};
+
+/**
+ * Get the physical key code of a key, for letters and digits.
+ * @param {string} key The key of a key combo.
+ * @returns {string | undefined} The key code, e.g. `KeyB` or `Digit7`.
+ */
+const getKeyCode = (key: string): string | undefined => {
+    if (/^[a-z]$/i.test(key)) {
+        return `Key${key.toUpperCase()}`;
+    }
+    if (/^\d$/.test(key)) {
+        return `Digit${key}`;
+    }
+    return undefined;
+};
+
+/**
+ * Check whether a keyboard event matches a key combo. All modifiers have to match exactly.
+ * @param {KeyboardEvent} event The occurred keyboard event.
+ * @param {string} keyCombo The key combo, e.g. `Mod+Shift+7`.
+ * @returns {boolean} Whether the event matches the key combo.
+ */
+const matchesKeyCombo = (event: KeyboardEvent, keyCombo: string): boolean => {
+    const parts = keyCombo.split('+');
+    const key = parts[parts.length - 1];
+    const modifiers = parts.slice(0, -1).map((modifier) => modifier.toLowerCase());
+    const isModifierCommand = modifiers.includes('mod') && isApplePlatform();
+    const isModifierControl = modifiers.includes('mod') && !isApplePlatform();
+    if (
+        event.ctrlKey !== (modifiers.includes('ctrl') || isModifierControl) ||
+        event.metaKey !== (modifiers.includes('meta') || isModifierCommand) ||
+        event.altKey !== modifiers.includes('alt') ||
+        event.shiftKey !== modifiers.includes('shift')
+    ) {
+        return false;
+    }
+    if (event.key.toLowerCase() === key.toLowerCase()) {
+        return true;
+    }
+    // Shift and alt change the value of letters and digits, e.g. shift and 7 is `&` on english keyboards, so the physical key is matched as well.
+    // Not for AltGr, which windows reports as control and alt, since it types characters like `@` or `#` on french and german keyboards.
+    const isAltGraph = event.getModifierState('AltGraph') || (event.ctrlKey && event.altKey && event.key.length === 1);
+    return !isAltGraph && event.code === getKeyCode(key);
+};
+
+/**
+ * Get the command of a keyboard event from the key binding map. Key combos that are not in the map get the default draft js command,
+ * like deleting a word, except the editor commands draft js binds by itself. Those are replaced by the unbound command.
+ * @param {KeyboardEvent} event The occurred keyboard event.
+ * @param {IKeyBindingMap} keyBindings The key binding map.
+ * @returns {string | null} The command or null if the key combo has no binding.
+ */
+export const getKeyBindingCommand = (event: KeyboardEvent, keyBindings: IKeyBindingMap): string | null => {
+    const keyCombo = Object.keys(keyBindings).find((keyCombo) => matchesKeyCombo(event, keyCombo));
+    if (keyCombo) {
+        return keyBindings[keyCombo];
+    }
+    const defaultCommand = getDefaultKeyBinding(event);
+    return defaultCommand && draftBoundCommands.includes(defaultCommand) ? unboundCommand : defaultCommand;
+};
+
+/**
+ * Get all key combos bound to a command.
+ * @param {IKeyBindingMap} keyBindings The key binding map.
+ * @param {EditorCommand} command The command.
+ * @returns {string[]} The key combos in the order of the map.
+ */
+export const getKeyCombos = (keyBindings: IKeyBindingMap, command: EditorCommand): string[] => {
+    return Object.keys(keyBindings).filter((keyCombo) => keyBindings[keyCombo] === command);
+};
+
+/**
+ * Format a key combo for display, with the names of the modifier keys on windows / linux or on mac.
+ * @param {string} keyCombo The key combo, e.g. `Mod+Shift+7`.
+ * @param {ITextEditorStrings} strings The texts of the editor containing the names of the modifier keys.
+ * @param {boolean} isMac Whether to use the names of the modifier keys on mac.
+ * @returns {string} The formatted key combo, e.g. `Ctrl + Shift + 7`.
+ */
+export const formatKeyCombo = (keyCombo: string, strings: ITextEditorStrings, isMac: boolean): string => {
+    const modifierNames: { [modifier: string]: string } = {
+        mod: isMac ? strings.commandKey : strings.controlKey,
+        ctrl: strings.controlKey,
+        meta: strings.commandKey,
+        alt: isMac ? strings.optionKey : strings.altKey,
+        shift: strings.shiftKey,
+    };
+    return keyCombo
+        .split('+')
+        .map((part) => modifierNames[part.toLowerCase()] ?? part)
+        .join(' + ');
+};
@@ -0,0 +1,32 @@
+/** The entity type used for links. */
+export const linkEntityType = 'LINK';
+
+/** The entity data stored for a link. */
+export interface ILinkData {
+    /** The url the link points to. */
+    url: string;
+    /** The optional title, shown as tooltip. */
+    title?: string;
+    /** The browsing context to open the link in, e.g. '_blank' or '_self'. */
+    target?: string;
+    /** The relationship of the linked document, e.g. 'noopener noreferrer'. */
+    rel?: string;
+}
+
+/** The position of a link entity in the editor content. */
+export interface ILinkRange {
+    /** The key of the block containing the link. */
+    blockKey: string;
+    /** The start offset of the link text. */
+    start: number;
+    /** The end offset of the link text. */
+    end: number;
+    /** The key of the link entity. */
+    entityKey: string;
+}
+
+/** The data used for links that are created without explicit attributes. */
+export const defaultLinkData: Omit<ILinkData, 'url'> = {
+    target: '_blank',
+    rel: 'noopener noreferrer',
+};
@@ -0,0 +1,166 @@
+import { ContentState, EditorState, Modifier, SelectionState } from 'draft-js';
+import { applyBlockStyle, applyInlineStyle } from './Helper';
+
+/** The markdown shortcuts that can be enabled or disabled individually. All shortcuts are enabled by default. */
+export interface IMarkdownShortcutOptions {
+    /** Whether `# ` up to `###### ` at the start of a paragraph create a header of the matching level. */
+    heading?: boolean;
+    /** Whether `- ` or `* ` at the start of a paragraph create an unordered list. */
+    unorderedList?: boolean;
+    /** Whether `1. ` at the start of a paragraph creates an ordered list. */
+    orderedList?: boolean;
+    /** Whether `> ` at the start of a paragraph creates a blockquote. */
+    blockquote?: boolean;
+    /** Whether ``` at the start of a paragraph creates a code block. */
+    codeBlock?: boolean;
+    /** Whether `**text**` makes the text bold. */
+    bold?: boolean;
+    /** Whether `_text_` makes the text italic. */
+    italic?: boolean;
+    /** Whether `~~text~~` strikes the text through. */
+    strikethrough?: boolean;
+    /** Whether `` `text` `` formats the text as inline code. */
+    inlineCode?: boolean;
+}
+
+/** A shortcut that converts the prefix of a paragraph into a block type. */
+interface IBlockShortcut {
+    /** The option that enables the shortcut. */
+    option: keyof IMarkdownShortcutOptions;
+    /** Matches the complete paragraph text before the cursor, including the typed character. */
+    pattern: RegExp;
+    /** The block type to apply. */
+    blockType: string | ((match: RegExpMatchArray) => string);
+}
+
+/** A shortcut that converts text wrapped in markers into an inline style. */
+interface IInlineShortcut {
+    /** The option that enables the shortcut. */
+    option: keyof IMarkdownShortcutOptions;
+    /** Matches the wrapped text at the end of the text before the cursor, including the typed character. The first group is the text. */
+    pattern: RegExp;
+    /** The length of the markers on each side of the text. */
+    markerLength: number;
+    /** The inline style to apply. */
+    inlineStyle: string;
+}
+
+/** The header block types by the number of hashes. */
+const headerBlockTypes = ['header-one', 'header-two', 'header-three', 'header-four', 'header-five', 'header-six'];
+
+/** The shortcuts that change the block type. */
+const blockShortcuts: IBlockShortcut[] = [
+    { option: 'heading', pattern: /^(#{1,6}) $/, blockType: (match) => headerBlockTypes[match[1].length - 1] },
+    { option: 'unorderedList', pattern: /^[-*] $/, blockType: 'unordered-list-item' },
+    { option: 'orderedList', pattern: /^\d+\. $/, blockType: 'ordered-list-item' },
+    { option: 'blockquote', pattern: /^> $/, blockType: 'blockquote' },
+    { option: 'codeBlock', pattern: /^```$/, blockType: 'code-block' },
+];
+
+/** The shortcuts that apply an inline style. */
+const inlineShortcuts: IInlineShortcut[] = [
+    { option: 'bold', pattern: /\*\*([^*\s](?:[^*]*[^*\s])?)\*\*$/, markerLength: 2, inlineStyle: 'BOLD' },
+    { option: 'italic', pattern: /(?:^|[^\w])_([^_\s](?:[^_]*[^_\s])?)_$/, markerLength: 1, inlineStyle: 'ITALIC' },
+    { option: 'strikethrough', pattern: /~~([^~\s](?:[^~]*[^~\s])?)~~$/, markerLength: 2, inlineStyle: 'STRIKETHROUGH' },
+    { option: 'inlineCode', pattern: /`([^`\s](?:[^`]*[^`\s])?)`$/, markerLength: 1, inlineStyle: 'CODE' },
+];
+
+/**
+ * Turn the changes from the typed state to the new state into a single undo step, so that undo restores the typed markdown syntax.
+ * @param {EditorState} typedState The editor state containing the typed markdown syntax.
+ * @param {EditorState} newState The converted editor state.
+ * @returns {EditorState} The converted editor state with a single undo step.
+ */
+const asSingleUndoStep = (typedState: EditorState, newState: EditorState): EditorState => {
+    return EditorState.set(newState, {
+        currentContent: newState.getCurrentContent().set('selectionBefore', typedState.getSelection()) as ContentState,
+        undoStack: typedState.getUndoStack().push(typedState.getCurrentContent()),
+        redoStack: typedState.getRedoStack().clear(),
+    });
+};
+
+/**
+ * Convert a markdown block prefix before the cursor into the matching block type.
+ * @param {EditorState} typedState The editor state containing the typed prefix.
+ * @param {IMarkdownShortcutOptions} options The enabled shortcuts.
+ * @returns {EditorState | undefined} The converted editor state or undefined if no shortcut matches.
+ */
+const applyBlockShortcut = (typedState: EditorState, options: IMarkdownShortcutOptions): EditorState | undefined => {
+    const selection = typedState.getSelection();
+    const block = typedState.getCurrentContent().getBlockForKey(selection.getStartKey());
+    if (block.getType() !== 'unstyled') {
+        return undefined;
+    }
+    const textBeforeCursor = block.getText().slice(0, selection.getStartOffset());
+    for (const shortcut of blockShortcuts) {
+        const match = textBeforeCursor.match(shortcut.pattern);
+        if (options[shortcut.option] === false || !match) {
+            continue;
+        }
+        const prefixSelection = selection.merge({ anchorOffset: 0, focusOffset: selection.getStartOffset(), isBackward: false }) as SelectionState;
+        let newState = EditorState.push(typedState, Modifier.removeRange(typedState.getCurrentContent(), prefixSelection, 'backward'), 'remove-range');
+        applyBlockStyle(newState, (editorState) => (newState = editorState), typeof shortcut.blockType === 'string' ? shortcut.blockType : shortcut.blockType(match));
+        return asSingleUndoStep(typedState, newState);
+    }
+    return undefined;
+};
+
+/**
+ * Convert text wrapped in markdown markers before the cursor into the matching inline style.
+ * @param {EditorState} typedState The editor state containing the typed markers.
+ * @param {IMarkdownShortcutOptions} options The enabled shortcuts.
+ * @returns {EditorState | undefined} The converted editor state or undefined if no shortcut matches.
+ */
+const applyInlineShortcut = (typedState: EditorState, options: IMarkdownShortcutOptions): EditorState | undefined => {
+    const selection = typedState.getSelection();
+    const block = typedState.getCurrentContent().getBlockForKey(selection.getStartKey());
+    if (block.getType() === 'code-block') {
+        return undefined;
+    }
+    const textBeforeCursor = block.getText().slice(0, selection.getStartOffset());
+    for (const shortcut of inlineShortcuts) {
+        const match = textBeforeCursor.match(shortcut.pattern);
+        if (options[shortcut.option] === false || !match) {
+            continue;
+        }
+        const end = selection.getStartOffset();
+        const textStart = end - shortcut.markerLength - match[1].length;
+        const start = textStart - shortcut.markerLength;
+        const createSelection = (anchorOffset: number, focusOffset: number) => SelectionState.createEmpty(block.getKey()).merge({ anchorOffset, focusOffset }) as SelectionState;
+        let contentState = Modifier.removeRange(typedState.getCurrentContent(), createSelection(end - shortcut.markerLength, end), 'backward');
+        contentState = Modifier.removeRange(contentState, createSelection(start, textStart), 'backward');
+        let newState = EditorState.push(typedState, contentState, 'remove-range');
+        newState = EditorState.forceSelection(newState, createSelection(start, start + match[1].length));
+        applyInlineStyle(newState, (editorState) => (newState = editorState), shortcut.inlineStyle);
+        newState = EditorState.forceSelection(newState, createSelection(start + match[1].length, start + match[1].length));
+        // Continue typing without the applied style.
+        newState = EditorState.setInlineStyleOverride(newState, typedState.getCurrentInlineStyle());
+        return asSingleUndoStep(typedState, newState);
+    }
+    return undefined;
+};
+
+/**
+ * Insert the typed characters and convert the markdown syntax before the cursor, if it matches an enabled shortcut.
+ * The typed characters are inserted as own undo step, so that undo reverts only the conversion.
+ * @param {EditorState} editorState The current editor state.
+ * @param {string} chars The typed characters.
+ * @param {IMarkdownShortcutOptions} options The enabled shortcuts.
+ * @returns {EditorState | undefined} The converted editor state or undefined if no shortcut matches.
+ */
+export const applyMarkdownShortcut = (editorState: EditorState, chars: string, options: IMarkdownShortcutOptions = {}): EditorState | undefined => {
+    const selection = editorState.getSelection();
+    if (!selection.isCollapsed() || chars.length !== 1) {
+        return undefined;
+    }
+    const block = editorState.getCurrentContent().getBlockForKey(selection.getStartKey());
+    const textBeforeCursor = block.getText().slice(0, selection.getStartOffset()) + chars;
+    const isBlockCandidate = blockShortcuts.some((shortcut) => shortcut.pattern.test(textBeforeCursor));
+    const isInlineCandidate = inlineShortcuts.some((shortcut) => shortcut.pattern.test(textBeforeCursor));
+    if (!isBlockCandidate && !isInlineCandidate) {
+        return undefined;
+    }
+    const contentState = Modifier.insertText(editorState.getCurrentContent(), selection, chars, editorState.getCurrentInlineStyle());
+    const typedState = EditorState.push(editorState, contentState, 'insert-characters');
+    return (isBlockCandidate && applyBlockShortcut(typedState, options)) || (isInlineCandidate && applyInlineShortcut(typedState, options)) || undefined;
+};
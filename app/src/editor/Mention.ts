@@ -0,0 +1,247 @@
+import { EditorState, RawDraftContentState } from 'draft-js';
+import { isSafeUrl } from './Sanitizer';
+import { escapeRegExp } from './Search';
+import { escapeHtml } from './Table';
+
+/** The entity type used for mentions. */
+export const mentionEntityType = 'MENTION';
+
+/** An item the mention suggestions offer, e.g. a colleague or a ticket. */
+export interface IMentionItem {
+    /** The unique identifier of the item. */
+    id: string;
+    /** The name that is inserted after the trigger. */
+    name: string;
+    /** Additional text displayed in the suggestions, e.g. an e-mail address or a ticket state. */
+    secondaryText?: string;
+    /** The optional url the mention links to. */
+    url?: string;
+}
+
+/** The entity data stored for a mention. */
+export interface IMentionData {
+    /** The unique identifier of the mentioned item. */
+    id: string;
+    /** The name of the mentioned item. */
+    name: string;
+    /** The trigger the mention was created with, e.g. `@`. */
+    trigger: string;
+    /** The optional url the mention links to. */
+    url?: string;
+}
+
+/** The markup mentions are exported as. `link` creates links to the mention url, `data` creates elements with `data-mention-*` attributes. */
+export type MentionExportFormat = 'link' | 'data';
+
+/** Options of the mention import and export. */
+export interface IMentionOptions {
+    /** The markup mentions are exported as. Mentions without url are always exported as `data` markup. */
+    exportFormat: MentionExportFormat;
+}
+
+/** The text before the cursor that searches for a mention. */
+export interface IMentionQuery {
+    /** The typed trigger. */
+    trigger: string;
+    /** The text typed after the trigger. */
+    query: string;
+    /** The key of the block containing the query. */
+    blockKey: string;
+    /** The start offset of the trigger. */
+    start: number;
+    /** The end offset of the query. */
+    end: number;
+}
+
+/** The current mention options. */
+let mentionOptions: IMentionOptions = {
+    exportFormat: 'data',
+};
+
+/** The maximum length of the text after a trigger that is used as query. */
+const maxMentionQueryLength = 50;
+
+/**
+ * Prefix of the link urls that temporarily stand in for mentions while converting from markdown.
+ * Only letters and digits are used so that the converter leaves the placeholder untouched.
+ */
+const mentionPlaceholderPrefix = 'DRAFTMENTIONPLACEHOLDER';
+
+/** Matches a mention exported as `data` markup to markdown. */
+const markdownMentionRegex = /<span class="mention"(?:\s+data-mention-[a-z]+="[^"]*")+>[^<]*<\/span>/g;
+
+/**
+ * Override parts of the mention options.
+ * @param {Partial<IMentionOptions>} options The options to override.
+ */
+export const configureMentions = (options: Partial<IMentionOptions>) => {
+    mentionOptions = { ...mentionOptions, ...options };
+};
+
+/**
+ * Get the current mention options.
+ * @returns {IMentionOptions} The current mention options.
+ */
+export const getMentionOptions = (): IMentionOptions => {
+    return mentionOptions;
+};
+
+/**
+ * Get the mention query the user is typing at the cursor.
+ * A query starts with a trigger at the start of the block or after whitespace and contains no whitespace.
+ * @param {EditorState} editorState The current editor state.
+ * @param {string[]} triggers The characters that start a mention, e.g. `@`.
+ * @returns {IMentionQuery | undefined} The query or undefined if the user is not typing a mention.
+ */
+export const getMentionQuery = (editorState: EditorState, triggers: string[]): IMentionQuery | undefined => {
+    const selection = editorState.getSelection();
+    if (!selection.isCollapsed() || !triggers.length) {
+        return undefined;
+    }
+    const block = editorState.getCurrentContent().getBlockForKey(selection.getStartKey());
+    if (block.getType() === 'code-block' || block.getType() === 'atomic') {
+        return undefined;
+    }
+    const end = selection.getStartOffset();
+    const triggerPattern = triggers.map(escapeRegExp).join('|');
+    const match = block
+        .getText()
+        .slice(0, end)
+        .match(new RegExp(`(?:^|\\s)(${triggerPattern})(\\S{0,${maxMentionQueryLength}})$`));
+    if (!match) {
+        return undefined;
+    }
+    const start = end - match[1].length - match[2].length;
+    if (block.getEntityAt(start)) {
+        return undefined;
+    }
+    return { trigger: match[1], query: match[2], blockKey: block.getKey(), start, end };
+};
+
+/**
+ * Check whether two mention queries are equal.
+ * @param {IMentionQuery | undefined} query The first query.
+ * @param {IMentionQuery | undefined} otherQuery The second query.
+ * @returns {boolean} Whether both queries are undefined or search the same text at the same position.
+ */
+export const isSameMentionQuery = (query: IMentionQuery | undefined, otherQuery: IMentionQuery | undefined): boolean => {
+    if (!query || !otherQuery) {
+        return query === otherQuery;
+    }
+    return query.trigger === otherQuery.trigger && query.query === otherQuery.query && query.blockKey === otherQuery.blockKey && query.start === otherQuery.start;
+};
+
+/**
+ * Get the `data-mention-*` attributes of a mention.
+ * @param {IMentionData} mention The mention data.
+ * @returns {{ [name: string]: string }} The attributes.
+ */
+const getMentionDataAttributes = (mention: IMentionData): { [name: string]: string } => {
+    const attributes: { [name: string]: string } = { 'data-mention-id': mention.id, 'data-mention-trigger': mention.trigger };
+    if (mention.url && isSafeUrl(mention.url)) {
+        attributes['data-mention-url'] = mention.url;
+    }
+    return attributes;
+};
+
+/**
+ * Get the element and attributes the html export renders a mention with.
+ * @param {IMentionData} mention The mention data.
+ * @returns {{ element: string; attributes: { [name: string]: string } }} The render config of the mention.
+ */
+export const getMentionHtmlRenderConfig = (mention: IMentionData): { element: string; attributes: { [name: string]: string } } => {
+    if (mentionOptions.exportFormat === 'link' && mention.url && isSafeUrl(mention.url)) {
+        return { element: 'a', attributes: { href: mention.url, class: 'mention', 'data-mention-id': mention.id, 'data-mention-trigger': mention.trigger } };
+    }
+    return { element: 'span', attributes: { class: 'mention', ...getMentionDataAttributes(mention) } };
+};
+
+/**
+ * Get the markdown that is written before and after the text of a mention.
+ * @param {IMentionData} mention The mention data.
+ * @returns {{ open: string; close: string }} The markdown before and after the mention text.
+ */
+export const getMentionMarkdown = (mention: IMentionData): { open: string; close: string } => {
+    if (mentionOptions.exportFormat === 'link' && mention.url && isSafeUrl(mention.url)) {
+        return { open: '[', close: `](${mention.url.replace(/[()\s]/g, encodeURIComponent)})` };
+    }
+    const attributes = Object.entries(getMentionDataAttributes(mention))
+        .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+        .join('');
+    return { open: `<span class="mention"${attributes}>`, close: '</span>' };
+};
+
+/**
+ * Get the mention data of an imported html element with `data-mention-*` attributes.
+ * @param {Element} element The imported html element.
+ * @returns {IMentionData | undefined} The mention data or undefined if the element is no mention.
+ */
+export const getHtmlMentionData = (element: Element): IMentionData | undefined => {
+    const id = element.getAttribute('data-mention-id');
+    if (id === null) {
+        return undefined;
+    }
+    const trigger = element.getAttribute('data-mention-trigger') ?? '';
+    const text = element.textContent ?? '';
+    const mention: IMentionData = { id, trigger, name: text.startsWith(trigger) ? text.slice(trigger.length) : text };
+    const url = element.getAttribute('data-mention-url') ?? (element.tagName === 'A' ? element.getAttribute('href') : null);
+    if (url && isSafeUrl(url)) {
+        mention.url = url;
+    }
+    return mention;
+};
+
+/**
+ * Replace all mentions exported as `data` markup in a markdown string with placeholder links.
+ * Fenced code blocks are skipped.
+ * @param {string} markdownString The markdown string to process.
+ * @param {IMentionData[]} mentions The list to add the extracted mentions to.
+ * @returns {string} The markdown string with placeholder links.
+ */
+export const extractMarkdownMentions = (markdownString: string, mentions: IMentionData[]): string => {
+    let isInsideFence = false;
+    return markdownString
+        .split('\n')
+        .map((line) => {
+            if (/^\s*(```|~~~)/.test(line)) {
+                isInsideFence = !isInsideFence;
+            }
+            if (isInsideFence) {
+                return line;
+            }
+            return line.replace(markdownMentionRegex, (markup: string) => {
+                const element = new DOMParser().parseFromString(markup, 'text/html').body.firstElementChild;
+                const mention = element ? getHtmlMentionData(element) : undefined;
+                if (!mention) {
+                    return markup;
+                }
+                const placeholder = `${mentionPlaceholderPrefix}${mentions.length}X`;
+                mentions.push(mention);
+                return `[${(element?.textContent ?? '').replace(/([[\]])/g, '\\$1')}](${placeholder})`;
+            });
+        })
+        .join('\n');
+};
+
+/**
+ * Turn the placeholder links of extracted mentions into mention entities.
+ * @param {RawDraftContentState} rawContent The raw content created from markdown.
+ * @param {IMentionData[]} mentions The extracted mentions.
+ * @returns {RawDraftContentState} The raw content with mention entities.
+ */
+export const restoreMarkdownMentions = (rawContent: RawDraftContentState, mentions: IMentionData[]): RawDraftContentState => {
+    if (!mentions.length) {
+        return rawContent;
+    }
+    const placeholderRegex = new RegExp(`^${mentionPlaceholderPrefix}(\\d+)X$`);
+    const entityMap = { ...rawContent.entityMap };
+    Object.keys(entityMap).forEach((key) => {
+        const entity = entityMap[key];
+        const match = entity.type === 'LINK' ? String(entity.data?.url ?? entity.data?.href ?? '').match(placeholderRegex) : null;
+        const mention = match ? mentions[Number(match[1])] : undefined;
+        if (mention) {
+            entityMap[key] = { type: mentionEntityType, mutability: 'IMMUTABLE', data: mention };
+        }
+    });
+    return { ...rawContent, entityMap };
+};
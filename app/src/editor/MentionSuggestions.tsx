@@ -0,0 +1,91 @@
+import React, { FunctionComponent, MouseEvent } from 'react';
+import styled from 'styled-components';
+import { Callout, DirectionalHint, IPalette, Point, Target, Text, useTheme } from '@fluentui/react';
+import { IMentionItem } from './Mention';
+
+interface IThemed {
+    palette: IPalette;
+}
+
+interface ISuggestionItem extends IThemed {
+    /** Whether the item is highlighted, transient so that it is not passed to the dom. */
+    $isSelected: boolean;
+}
+
+const SuggestionList = styled.div`
+    min-width: 200px;
+    max-height: 300px;
+    overflow-y: auto;
+    padding: 4px 0;
+`;
+
+const SuggestionItem = styled.div<ISuggestionItem>`
+    display: flex;
+    flex-direction: column;
+    padding: 6px 12px;
+    cursor: pointer;
+    color: ${(props) => props.palette.black};
+    background-color: ${(props) => (props.$isSelected ? props.palette.neutralLighter : 'transparent')};
+
+    &:hover {
+        background-color: ${(props) => props.palette.neutralLighter};
+    }
+`;
+
+export interface IMentionSuggestionsProps {
+    /** The element or caret position to display the suggestions at. */
+    target: Target | Point;
+    /** The suggested items. */
+    items: IMentionItem[];
+    /** The index of the highlighted item. */
+    selectedIndex: number;
+    /** Callback to execute when an item is selected. */
+    onSelect: (item: IMentionItem) => void;
+    /** Callback to execute when the suggestions should be closed. */
+    onDismiss: () => void;
+}
+
+/**
+ * List of suggestions for the mention the user is typing.
+ * The focus stays in the editor, so that the user can continue typing and select items with the keyboard.
+ * @param {IMentionSuggestionsProps} props The mention suggestions properties.
+ * @returns {FunctionComponent} The mention suggestions component.
+ */
+export const MentionSuggestions: FunctionComponent<IMentionSuggestionsProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+
+    /**
+     * Create the mouse down handler of an item, which selects the item without moving the focus out of the editor.
+     * @param {IMentionItem} item The item to select.
+     * @returns {(event: MouseEvent) => void} The mouse down handler.
+     */
+    const onItemMouseDown = (item: IMentionItem) => (event: MouseEvent) => {
+        event.preventDefault();
+        props.onSelect(item);
+    };
+
+    return (
+        <Callout target={props.target} isBeakVisible={false} gapSpace={4} directionalHint={DirectionalHint.bottomLeftEdge} setInitialFocus={false} onDismiss={props.onDismiss}>
+            <SuggestionList role="listbox">
+                {props.items.map((item, index) => (
+                    <SuggestionItem
+                        key={item.id}
+                        role="option"
+                        aria-selected={index === props.selectedIndex}
+                        palette={theme.palette}
+                        $isSelected={index === props.selectedIndex}
+                        onMouseDown={onItemMouseDown(item)}
+                    >
+                        <Text>{item.name}</Text>
+                        {item.secondaryText && (
+                            <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+                                {item.secondaryText}
+                            </Text>
+                        )}
+                    </SuggestionItem>
+                ))}
+            </SuggestionList>
+        </Callout>
+    );
+};
@@ -1,11 +1,96 @@
 import { draftToMarkdown, DraftToMarkdownOptions, markdownToDraft, MarkdownToDraftOptions } from 'markdown-draft-js';
-import { EditorState, convertToRaw, convertFromRaw, ContentState, ContentBlock, CompositeDecorator } from 'draft-js';
-import { stateToHTML } from 'draft-js-export-html';
+import {
+    EditorState,
+    convertToRaw,
+    convertFromRaw,
+    ContentState,
+    ContentBlock,
+    CompositeDecorator,
+    CharacterMetadata,
+    DraftDecorator,
+    BlockMap,
+    EntityInstance,
+    genKey,
+    RawDraftContentBlock,
+    RawDraftContentState,
+    RawDraftEntity,
+} from 'draft-js';
+import { RenderConfig, stateToHTML } from 'draft-js-export-html';
 import { stateFromHTML } from 'draft-js-import-html';
 import { DraftLink } from './DraftLink';
+import { DraftMention } from './DraftMention';
+import { extractMarkdownMentions, getHtmlMentionData, getMentionHtmlRenderConfig, getMentionMarkdown, IMentionData, mentionEntityType, restoreMarkdownMentions } from './Mention';
+import { codeHighlightDecorators } from './CodeHighlight';
+import { getHtmlImageData, IImageData, imageEntityType, imageToHtml, imageToMarkdown, replaceMarkdownImages } from './Image';
+import { isSafeImageUrl, sanitizeContentState, sanitizeHtml } from './Sanitizer';
+import { addHtmlAlignment, alignWrappedMarkdownBlocks, getHtmlAlignmentData, wrapAlignedMarkdownBlocks } from './Alignment';
+import { getHtmlTextStyle, getHtmlTextStyleRenderConfig, splitHtmlTextStyles } from './TextStyles';
+import {
+    addHtmlTaskListCheckboxes,
+    checkableListItemBlockType,
+    checkableListItemsToHtmlListItems,
+    checkableListItemToMarkdownBlock,
+    getHtmlTaskListItemAttributes,
+    getHtmlTaskListItemData,
+    markdownTaskListItemsToCheckable,
+} from './TaskList';
+import { isMarkdownTableStart, ITableData, parseMarkdownTable, tableEntityType, tableFromHtmlElement, tableToHtml, tableToMarkdown } from './Table';
+
+/** An atomic block entity that is extracted before and restored after the markdown / html conversion. */
+interface IAtomicEntity {
+    /** The entity type. */
+    type: string;
+    /** The entity data. */
+    data: object;
+}
+
+/**
+ * Prefix of the paragraphs that temporarily stand in for atomic blocks while converting from and to markdown or html.
+ * Only letters and digits are used so that the converters leave the placeholder untouched.
+ */
+const atomicPlaceholderPrefix = 'DRAFTATOMICPLACEHOLDER';
+
+/** The current schema version of the draft raw json format. */
+export const rawContentSchemaVersion = 1;
+
+/** A versioned draft raw json document. */
+export interface IRawContentDocument {
+    /** The schema version the document was written with. */
+    schemaVersion: number;
+    /** The raw draft-js content. */
+    content: RawDraftContentState;
+}
+
+/**
+ * Migrates a raw json document from one schema version to the next one.
+ * The document is passed as parsed json, since older versions may not match the current document shape.
+ */
+export type RawContentMigration = (document: { [key: string]: unknown }) => { [key: string]: unknown };
+
+/** The registered migrations by the schema version they migrate from. */
+const rawContentMigrations: { [fromVersion: number]: RawContentMigration } = {
+    // Version 0 is the plain output of convertToRaw without the versioned wrapper.
+    0: (document) => ({ schemaVersion: 1, content: document }),
+};
+
+/** Functions to convert the entity data of atomic blocks into markdown, by entity type. */
+const atomicMarkdownSerializers: { [entityType: string]: (data: object) => string } = {
+    [tableEntityType]: (data) => tableToMarkdown(data as ITableData),
+    [imageEntityType]: (data) => imageToMarkdown(data as IImageData),
+};
 
 /** Custom options to convert draft to markdown. */
 const draftToMarkdownOptions: DraftToMarkdownOptions = {
+    entityItems: {
+        [mentionEntityType]: {
+            open: function open(entity) {
+                return getMentionMarkdown((entity as unknown as RawDraftEntity).data as IMentionData).open;
+            },
+            close: function close(entity) {
+                return getMentionMarkdown((entity as unknown as RawDraftEntity).data as IMentionData).close;
+            },
+        },
+    },
     styleItems: {
         UNDERLINE: {
             open: function open() {
@@ -15,6 +100,30 @@ const draftToMarkdownOptions: DraftToMarkdownOptions = {
                 return '++';
             },
         },
+        SUPERSCRIPT: {
+            open: function open() {
+                return '^';
+            },
+            close: function close() {
+                return '^';
+            },
+        },
+        SUBSCRIPT: {
+            open: function open() {
+                return '~';
+            },
+            close: function close() {
+                return '~';
+            },
+        },
+        HIGHLIGHT: {
+            open: function open() {
+                return '==';
+            },
+            close: function close() {
+                return '==';
+            },
+        },
     },
 };
 
@@ -22,14 +131,278 @@ const draftToMarkdownOptions: DraftToMarkdownOptions = {
 const markdownToDraftOptions: MarkdownToDraftOptions = {
     blockStyles: {
         ins_open: 'UNDERLINE',
+        sup: 'SUPERSCRIPT',
+        sub: 'SUBSCRIPT',
+        mark_open: 'HIGHLIGHT',
     },
     remarkableOptions: {
         enable: {
-            inline: 'ins',
+            inline: ['ins', 'sup', 'sub', 'mark'],
         },
     },
 };
 
+/** The inline styles whose markdown syntax, `^x^` and `~x~`, ends at unescaped spaces and markers, since their text is not parsed further. */
+const markdownScriptStyles = ['SUPERSCRIPT', 'SUBSCRIPT'];
+
+/** The html elements the custom inline styles are exported as. */
+const htmlInlineStyles: { [inlineStyle: string]: RenderConfig } = {
+    SUPERSCRIPT: { element: 'sup' },
+    SUBSCRIPT: { element: 'sub' },
+    HIGHLIGHT: { element: 'mark' },
+};
+
+/** The custom inline styles of imported html elements, by lower case tag name. */
+const htmlElementStyles: { [tagName: string]: string } = {
+    sup: 'SUPERSCRIPT',
+    sub: 'SUBSCRIPT',
+    mark: 'HIGHLIGHT',
+};
+
+/**
+ * Create the placeholder text for the atomic entity with the given index.
+ * @param {number} index The index of the atomic entity.
+ * @returns {string} The placeholder text.
+ */
+const getAtomicPlaceholder = (index: number): string => {
+    return `${atomicPlaceholderPrefix}${index}X`;
+};
+
+/**
+ * Escape the spaces and markers in superscript and subscript text of an exported raw block with backslashes, so that the markdown import reads them back.
+ * The offsets of the inline style and entity ranges are shifted by the inserted backslashes.
+ * @param {RawDraftContentBlock} block The raw block to export.
+ * @returns {RawDraftContentBlock} The block with escaped superscript and subscript text.
+ */
+const escapeMarkdownScriptText = (block: RawDraftContentBlock): RawDraftContentBlock => {
+    const scriptRanges = block.inlineStyleRanges.filter((range) => markdownScriptStyles.includes(range.style));
+    if (!scriptRanges.length) {
+        return block;
+    }
+    // Raw offsets count unicode code points.
+    const characters = Array.from(block.text);
+    const escapedOffsets = characters
+        .map((_, offset) => offset)
+        .filter((offset) => /[ ^~]/.test(characters[offset]) && scriptRanges.some((range) => range.offset <= offset && offset < range.offset + range.length));
+    /**
+     * Get the number of backslashes inserted before an offset.
+     * @param {number} offset The offset in the unescaped text.
+     * @returns {number} The number of backslashes.
+     */
+    const getShift = (offset: number): number => escapedOffsets.filter((escapedOffset) => escapedOffset < offset).length;
+    /**
+     * Shift a range by the inserted backslashes. Backslashes at the start and inside of the range become part of it.
+     * @template T
+     * @param {T} range The inline style or entity range.
+     * @returns {T} The shifted range.
+     */
+    const shiftRange = <T extends { offset: number; length: number }>(range: T): T => ({
+        ...range,
+        offset: range.offset + getShift(range.offset),
+        length: range.length + getShift(range.offset + range.length) - getShift(range.offset),
+    });
+    return {
+        ...block,
+        text: characters.map((character, offset) => (escapedOffsets.includes(offset) ? `\\${character}` : character)).join(''),
+        inlineStyleRanges: block.inlineStyleRanges.map(shiftRange),
+        entityRanges: block.entityRanges.map(shiftRange),
+    };
+};
+
+/**
+ * Replace all placeholder paragraphs in the given content state with atomic blocks holding the extracted entities.
+ * @param {ContentState} contentState The content state containing placeholder paragraphs.
+ * @param {IAtomicEntity[]} atomicEntities The extracted atomic entities.
+ * @returns {ContentState} The content state with restored atomic blocks.
+ */
+const restoreAtomicPlaceholders = (contentState: ContentState, atomicEntities: IAtomicEntity[]): ContentState => {
+    if (!atomicEntities.length) {
+        return contentState;
+    }
+    const placeholderRegex = new RegExp(`^${atomicPlaceholderPrefix}(\\d+)X$`);
+    let newContentState = contentState;
+    const blockMap = contentState.getBlockMap().map((block) => {
+        const match = block?.getText().trim().match(placeholderRegex);
+        const atomicEntity = match ? atomicEntities[Number(match[1])] : undefined;
+        if (!block || !atomicEntity) {
+            return block;
+        }
+        newContentState = newContentState.createEntity(atomicEntity.type, 'IMMUTABLE', atomicEntity.data);
+        const entityKey = newContentState.getLastCreatedEntityKey();
+        return block.merge({
+            type: 'atomic',
+            text: ' ',
+            depth: 0,
+            characterList: block
+                .getCharacterList()
+                .slice(0, 1)
+                .map(() => CharacterMetadata.create({ entity: entityKey })),
+        }) as ContentBlock;
+    }) as BlockMap;
+    return newContentState.merge({ blockMap }) as ContentState;
+};
+
+/**
+ * Extract all GFM tables and images of the given markdown string and replace them with placeholder paragraphs.
+ * Images are always moved into their own block, since the editor displays them as atomic blocks.
+ * Fenced code blocks are skipped.
+ * @param {string} markdownString The markdown string to process.
+ * @param {IAtomicEntity[]} atomicEntities The list to add the extracted entities to.
+ * @returns {string} The markdown string with placeholders.
+ */
+const extractMarkdownAtomicBlocks = (markdownString: string, atomicEntities: IAtomicEntity[]): string => {
+    const lines = markdownString.split('\n');
+    const resultLines: string[] = [];
+    let isInsideFence = false;
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        if (/^\s*(```|~~~)/.test(line)) {
+            isInsideFence = !isInsideFence;
+        }
+        if (isInsideFence) {
+            resultLines.push(line);
+            continue;
+        }
+        if (!isMarkdownTableStart(line, lines[index + 1])) {
+            resultLines.push(
+                replaceMarkdownImages(line, (data: IImageData) => {
+                    const placeholder = getAtomicPlaceholder(atomicEntities.length);
+                    atomicEntities.push({ type: imageEntityType, data });
+                    return `\n\n${placeholder}\n\n`;
+                }),
+            );
+            continue;
+        }
+        const tableLines = [line, lines[index + 1]];
+        index += 2;
+        while (index < lines.length && lines[index].trim() !== '' && lines[index].includes('|')) {
+            tableLines.push(lines[index]);
+            index++;
+        }
+        index--;
+        const data: ITableData = parseMarkdownTable(tableLines);
+        resultLines.push('', getAtomicPlaceholder(atomicEntities.length), '');
+        atomicEntities.push({ type: tableEntityType, data });
+    }
+    return resultLines.join('\n');
+};
+
+/**
+ * Extract all tables of the given html string and replace them with placeholder paragraphs.
+ * @param {string} htmlString The html string to process.
+ * @param {IAtomicEntity[]} atomicEntities The list to add the extracted entities to.
+ * @returns {string} The html string with placeholders.
+ */
+const extractHtmlTables = (htmlString: string, atomicEntities: IAtomicEntity[]): string => {
+    if (!htmlString.toLowerCase().includes('<table')) {
+        return htmlString;
+    }
+    const document = new DOMParser().parseFromString(htmlString, 'text/html');
+    const tableElements = Array.from(document.body.querySelectorAll('table')).filter((table) => !table.parentElement?.closest('table'));
+    tableElements.forEach((tableElement) => {
+        const placeholder = document.createElement('p');
+        placeholder.textContent = getAtomicPlaceholder(atomicEntities.length);
+        atomicEntities.push({ type: tableEntityType, data: tableFromHtmlElement(tableElement) });
+        tableElement.replaceWith(placeholder);
+    });
+    return document.body.innerHTML;
+};
+
+/**
+ * Move all inline image entities created by the html import into their own atomic blocks.
+ * The text before and after an image stays in blocks of the original type.
+ * @param {ContentState} contentState The imported content state.
+ * @returns {ContentState} The content state with atomic image blocks.
+ */
+const hoistImageEntities = (contentState: ContentState): ContentState => {
+    const blocks: ContentBlock[] = [];
+    contentState.getBlocksAsArray().forEach((block) => {
+        const text = block.getText();
+        const characterList = block.getCharacterList();
+        const isImageAt = (index: number) => {
+            const entityKey = block.getEntityAt(index);
+            return !!entityKey && contentState.getEntity(entityKey).getType() === imageEntityType;
+        };
+        if (block.getType() === 'atomic' || !Array.from(text).some((_, index) => isImageAt(index))) {
+            blocks.push(block);
+            return;
+        }
+        let segmentStart = 0;
+        /**
+         * Add the text between the current segment start and the given offset as block, if it contains more than whitespace.
+         * @param {number} end The end offset of the text segment.
+         */
+        const pushTextSegment = (end: number) => {
+            let start = segmentStart;
+            while (start < end && !text[start].trim()) {
+                start++;
+            }
+            while (end > start && !text[end - 1].trim()) {
+                end--;
+            }
+            if (start < end) {
+                const key = blocks.some((existingBlock) => existingBlock.getKey() === block.getKey()) ? genKey() : block.getKey();
+                blocks.push(block.merge({ key, text: text.slice(start, end), characterList: characterList.slice(start, end) }) as ContentBlock);
+            }
+        };
+        for (let index = 0; index < text.length; index++) {
+            if (!isImageAt(index)) {
+                continue;
+            }
+            pushTextSegment(index);
+            blocks.push(block.merge({ key: genKey(), type: 'atomic', text: ' ', depth: 0, characterList: characterList.slice(index, index + 1) }) as ContentBlock);
+            segmentStart = index + 1;
+        }
+        pushTextSegment(text.length);
+    });
+    return ContentState.createFromBlockArray(blocks, contentState.getEntityMap()).merge({
+        selectionBefore: contentState.getSelectionBefore(),
+        selectionAfter: contentState.getSelectionAfter(),
+    }) as ContentState;
+};
+
+/**
+ * Get the language of an imported html code block from the `data-language` attribute or a `language-x` class of the element or its code child.
+ * @param {Element} element The html element of the code block.
+ * @returns {string | undefined} The language or undefined if none is set.
+ */
+const getHtmlCodeLanguage = (element: Element): string | undefined => {
+    const codeElement = element.querySelector('code');
+    const className = `${element.getAttribute('class') ?? ''} ${codeElement?.getAttribute('class') ?? ''}`;
+    return element.getAttribute('data-language') ?? className.match(/\blang(?:uage)?-([\w#+-]+)/)?.[1];
+};
+
+/** Matches the start tags of exported code blocks whose pre element has a `data-language` attribute. */
+const htmlCodeBlockLanguageRegex = /<pre([^>]*?) data-language="([^"]*)"([^>]*)><code[^>]*>/g;
+
+/**
+ * Move the languages of the code blocks in an exported html string to a `language-x` class of the code element.
+ * The html export renders the block attributes on both the pre and the code element, so the code element gets none of them.
+ * @param {string} htmlString The exported html string.
+ * @returns {string} The html string with the language classes.
+ */
+const addHtmlCodeLanguageClasses = (htmlString: string): string => {
+    return htmlString.replace(htmlCodeBlockLanguageRegex, (_, before: string, language: string, after: string) => {
+        return `<pre${before}${after}><code class="language-${language}">`;
+    });
+};
+
+/**
+ * Remove the CODE inline style from code blocks, which the html import applies to the code element inside of pre elements.
+ * @param {ContentState} contentState The imported content state.
+ * @returns {ContentState} The content state without inline code in code blocks.
+ */
+const removeInlineCodeFromCodeBlocks = (contentState: ContentState): ContentState => {
+    const blockMap = contentState.getBlockMap().map((block) => {
+        if (!block || block.getType() !== 'code-block') {
+            return block;
+        }
+        const characterList = block.getCharacterList().map((character) => (character ? CharacterMetadata.removeStyle(character, 'CODE') : character));
+        return block.merge({ characterList }) as ContentBlock;
+    }) as BlockMap;
+    return contentState.merge({ blockMap }) as ContentState;
+};
+
 /**
  * Find all entities in the editor that are links.
  * @param {ContentBlock} block The targeted block.
@@ -43,13 +416,44 @@ const findLinkEntities = (block: ContentBlock, callback: (start: number, end: nu
     }, callback);
 };
 
-/** Custom decorator for creating a draft js editor state. */
-const decorator = new CompositeDecorator([
+/**
+ * Find all entities in the editor that are mentions.
+ * @param {ContentBlock} block The targeted block.
+ * @param {() => void} callback The callback to execute.
+ * @param {ContentState} contentState The current content state.
+ */
+const findMentionEntities = (block: ContentBlock, callback: (start: number, end: number) => void, contentState: ContentState) => {
+    block.findEntityRanges((character) => {
+        const entityKey = character.getEntity();
+        return entityKey !== null && contentState.getEntity(entityKey).getType() === mentionEntityType;
+    }, callback);
+};
+
+/** The decorators every draft js editor state uses. */
+const defaultDecorators: DraftDecorator[] = [
     {
         strategy: findLinkEntities,
         component: DraftLink,
     },
-]);
+    {
+        strategy: findMentionEntities,
+        component: DraftMention,
+    },
+    ...codeHighlightDecorators,
+];
+
+/** Custom decorator for creating a draft js editor state. */
+const decorator = new CompositeDecorator(defaultDecorators);
+
+/**
+ * Create a decorator that combines the default decorators with the given additional decorators.
+ * @param {DraftDecorator[]} decorators The additional decorators, e.g. of editor plugins.
+ * @param {DraftDecorator[]} highlightDecorators Decorators that take precedence over the default decorators, e.g. of search matches.
+ * @returns {CompositeDecorator} The combined decorator.
+ */
+export const createDecorator = (decorators: DraftDecorator[] = [], highlightDecorators: DraftDecorator[] = []): CompositeDecorator => {
+    return decorators.length || highlightDecorators.length ? new CompositeDecorator([...highlightDecorators, ...defaultDecorators, ...decorators]) : decorator;
+};
 
 /**
  * Convert a given markdown string into a new draft-js editor state.
@@ -57,8 +461,12 @@ const decorator = new CompositeDecorator([
  * @returns {EditorState} The editor state to use for the base draft-js WYSIWYG editor.
  */
 export const getEditorStateFromMarkdown = (markdownString: string): EditorState => {
-    const rawObject = markdownToDraft(markdownString, markdownToDraftOptions);
-    const contentState = convertFromRaw(rawObject);
+    const atomicEntities: IAtomicEntity[] = [];
+    const mentions: IMentionData[] = [];
+    const markdownWithPlaceholders = extractMarkdownMentions(extractMarkdownAtomicBlocks(markdownString, atomicEntities), mentions);
+    const rawMarkdownContent = restoreMarkdownMentions(markdownToDraft(markdownWithPlaceholders, markdownToDraftOptions), mentions);
+    const rawObject = alignWrappedMarkdownBlocks(markdownTaskListItemsToCheckable(rawMarkdownContent));
+    const contentState = sanitizeContentState(restoreAtomicPlaceholders(convertFromRaw(rawObject), atomicEntities));
     const editorState = EditorState.createWithContent(contentState, decorator);
     return editorState;
 };
@@ -69,10 +477,28 @@ export const getEditorStateFromMarkdown = (markdownString: string): EditorState
  * @returns {string} The markdown string representation of the current draft-js WYSIWYG editor state.
  */
 export const exportEditorStateToMarkdownString = (editorState: EditorState): string => {
-    const draftContent = editorState.getCurrentContent();
+    const draftContent = sanitizeContentState(editorState.getCurrentContent());
     const rawDraftContent = convertToRaw(draftContent);
+    const atomicMarkdown: string[] = [];
+    rawDraftContent.blocks = rawDraftContent.blocks.map((block) => {
+        if (block.type === checkableListItemBlockType) {
+            return escapeMarkdownScriptText(checkableListItemToMarkdownBlock(block));
+        }
+        const entity = block.type === 'atomic' && block.entityRanges.length ? rawDraftContent.entityMap[block.entityRanges[0].key] : undefined;
+        const serializer = entity ? atomicMarkdownSerializers[entity.type] : undefined;
+        if (!entity || !serializer) {
+            return escapeMarkdownScriptText(block);
+        }
+        const text = getAtomicPlaceholder(atomicMarkdown.length);
+        atomicMarkdown.push(serializer(entity.data));
+        return { ...block, type: 'unstyled', text, depth: 0, entityRanges: [], inlineStyleRanges: [] };
+    });
+    rawDraftContent.blocks = wrapAlignedMarkdownBlocks(rawDraftContent.blocks, (markup: string) => {
+        atomicMarkdown.push(markup);
+        return getAtomicPlaceholder(atomicMarkdown.length - 1);
+    });
     const markdown = draftToMarkdown(rawDraftContent, draftToMarkdownOptions);
-    return markdown;
+    return atomicMarkdown.reduce((result, value, index) => result.replace(getAtomicPlaceholder(index), () => value), markdown);
 };
 
 /**
@@ -81,8 +507,37 @@ export const exportEditorStateToMarkdownString = (editorState: EditorState): str
  * @returns {EditorState} The editor state to use for the base draft-js WYSIWYG editor.
  */
 export const getEditorStateFromHtml = (htmlString: string): EditorState => {
-    const contentState = stateFromHTML(htmlString);
-    const editorState = EditorState.createWithContent(contentState, decorator);
+    const atomicEntities: IAtomicEntity[] = [];
+    const contentState = stateFromHTML(extractHtmlTables(splitHtmlTextStyles(sanitizeHtml(htmlString)), atomicEntities), {
+        elementStyles: htmlElementStyles,
+        customBlockFn: (element: Element) => {
+            const alignmentData = getHtmlAlignmentData(element);
+            const taskListItemData = getHtmlTaskListItemData(element);
+            if (taskListItemData) {
+                return { type: checkableListItemBlockType, data: { ...taskListItemData, ...alignmentData } };
+            }
+            const language = element.tagName === 'PRE' ? getHtmlCodeLanguage(element) : undefined;
+            if (language) {
+                return { type: 'code-block', data: { language, ...alignmentData } };
+            }
+            return alignmentData ? { data: alignmentData } : null;
+        },
+        customInlineFn: (element: Element, { Entity, Style }) => {
+            const mention = getHtmlMentionData(element);
+            if (mention) {
+                // The typings lack the optional mutability argument.
+                return (Entity as (type: string, data: object, mutability: string) => EntityInstance)(mentionEntityType, mention, 'IMMUTABLE');
+            }
+            const image = getHtmlImageData(element);
+            if (image) {
+                return Entity(imageEntityType, image);
+            }
+            const textStyle = getHtmlTextStyle(element);
+            return textStyle ? Style(textStyle) : null;
+        },
+    });
+    const contentStateWithAtomicBlocks = sanitizeContentState(hoistImageEntities(restoreAtomicPlaceholders(removeInlineCodeFromCodeBlocks(contentState), atomicEntities)));
+    const editorState = EditorState.createWithContent(contentStateWithAtomicBlocks, decorator);
     return editorState;
 };
 
@@ -92,9 +547,100 @@ export const getEditorStateFromHtml = (htmlString: string): EditorState => {
  * @returns {string} The html string representation of the current draft-js WYSIWYG editor state.
  */
 export const exportEditorStateToHtmlString = (editorState: EditorState): string => {
-    const draftContent = editorState.getCurrentContent();
-    const html = stateToHTML(draftContent);
-    return html;
+    const draftContent = checkableListItemsToHtmlListItems(sanitizeContentState(editorState.getCurrentContent()));
+    const html = stateToHTML(draftContent, {
+        inlineStyles: htmlInlineStyles,
+        blockRenderers: {
+            atomic: (block: ContentBlock) => {
+                const entityKey = block.getEntityAt(0);
+                const entity = entityKey ? draftContent.getEntity(entityKey) : undefined;
+                if (entity?.getType() === tableEntityType) {
+                    return tableToHtml(entity.getData() as ITableData);
+                }
+                if (entity?.getType() === imageEntityType && isSafeImageUrl((entity.getData() as IImageData).src)) {
+                    return imageToHtml(entity.getData() as IImageData);
+                }
+                // Returning nothing falls back to the default rendering.
+                return undefined as unknown as string;
+            },
+        },
+        // The typings lack the function to render custom inline styles, used for the text styles.
+        ...({ inlineStyleFn: getHtmlTextStyleRenderConfig } as object),
+        entityStyleFn: (entity: EntityInstance) => {
+            return entity.getType() === mentionEntityType ? getMentionHtmlRenderConfig(entity.getData() as IMentionData) : undefined;
+        },
+        blockStyleFn: (block: ContentBlock) => {
+            const taskListItemAttributes = getHtmlTaskListItemAttributes(block);
+            if (taskListItemAttributes) {
+                return addHtmlAlignment(block, { attributes: taskListItemAttributes });
+            }
+            const language = block.getType() === 'code-block' ? block.getData().get('language') : undefined;
+            return addHtmlAlignment(block, language ? { attributes: { 'data-language': language } } : undefined);
+        },
+    });
+    return addHtmlCodeLanguageClasses(addHtmlTaskListCheckboxes(html));
+};
+
+/**
+ * Register a migration that converts raw json documents of the given schema version into the next version.
+ * @param {number} fromVersion The schema version the migration converts from.
+ * @param {RawContentMigration} migration The migration function.
+ */
+export const registerRawContentMigration = (fromVersion: number, migration: RawContentMigration) => {
+    rawContentMigrations[fromVersion] = migration;
+};
+
+/**
+ * Get the schema version of a parsed raw json document. Documents without version are plain outputs of convertToRaw.
+ * @param {{ [key: string]: unknown }} document The parsed raw json document.
+ * @returns {number} The schema version of the document.
+ */
+const getRawContentSchemaVersion = (document: { [key: string]: unknown }): number => {
+    return typeof document.schemaVersion === 'number' ? document.schemaVersion : 0;
+};
+
+/**
+ * Convert a given draft raw json string into a new draft-js editor state.
+ * Documents of older schema versions are migrated to the current version first.
+ * @param {string} jsonString The versioned raw json representation of a draft-js content.
+ * @returns {EditorState} The editor state to use for the base draft-js WYSIWYG editor.
+ */
+export const getEditorStateFromRawJson = (jsonString: string): EditorState => {
+    let document = JSON.parse(jsonString) as { [key: string]: unknown };
+    let schemaVersion = getRawContentSchemaVersion(document);
+    if (schemaVersion > rawContentSchemaVersion) {
+        throw new Error(`The raw content schema version ${schemaVersion} is newer than the supported version ${rawContentSchemaVersion}.`);
+    }
+    while (schemaVersion < rawContentSchemaVersion) {
+        const migration = rawContentMigrations[schemaVersion];
+        if (!migration) {
+            throw new Error(`No migration is registered for the raw content schema version ${schemaVersion}.`);
+        }
+        document = migration(document);
+        const migratedSchemaVersion = getRawContentSchemaVersion(document);
+        if (migratedSchemaVersion <= schemaVersion) {
+            throw new Error(`The migration of the raw content schema version ${schemaVersion} did not increase the schema version.`);
+        }
+        schemaVersion = migratedSchemaVersion;
+    }
+    if (schemaVersion !== rawContentSchemaVersion) {
+        throw new Error(`The migrated raw content schema version ${schemaVersion} is not the supported version ${rawContentSchemaVersion}.`);
+    }
+    const contentState = sanitizeContentState(convertFromRaw((document as unknown as IRawContentDocument).content));
+    return EditorState.createWithContent(contentState, decorator);
+};
+
+/**
+ * Convert a given draft-js editor state into a versioned draft raw json string.
+ * @param {EditorState} editorState The draft-js WYSIWYG editor state.
+ * @returns {string} The raw json string representation of the current draft-js WYSIWYG editor state.
+ */
+export const exportEditorStateToRawJsonString = (editorState: EditorState): string => {
+    const document: IRawContentDocument = {
+        schemaVersion: rawContentSchemaVersion,
+        content: convertToRaw(sanitizeContentState(editorState.getCurrentContent())),
+    };
+    return JSON.stringify(document);
 };
 
 /**
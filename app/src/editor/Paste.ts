@@ -0,0 +1,150 @@
+import { BlockMapBuilder, CharacterMetadata, ContentBlock, ContentState, EditorState, genKey, Modifier } from 'draft-js';
+import { getEditorStateFromHtml, getEditorStateFromMarkdown } from './Parser';
+import { checkableListItemBlockType } from './TaskList';
+
+/** The block types the editor toolbar supports. Pasted blocks of other types become paragraphs. */
+export const supportedBlockTypes = [
+    'unstyled',
+    'header-one',
+    'header-two',
+    'header-three',
+    'header-four',
+    'header-five',
+    'header-six',
+    'unordered-list-item',
+    'ordered-list-item',
+    checkableListItemBlockType,
+    'blockquote',
+    'code-block',
+    'atomic',
+];
+
+/** The inline styles the editor toolbar supports. Other pasted inline styles are removed. */
+export const supportedInlineStyles = ['BOLD', 'ITALIC', 'UNDERLINE', 'STRIKETHROUGH', 'CODE', 'SUPERSCRIPT', 'SUBSCRIPT', 'HIGHLIGHT'];
+
+/** Patterns that indicate that a plain text is written in markdown. */
+const markdownPatterns = [
+    // Headings.
+    /^#{1,6}\s+\S/m,
+    // Unordered and ordered lists.
+    /^\s*(?:[-*+]|\d+\.)\s+\S/m,
+    // Blockquotes.
+    /^>\s?\S/m,
+    // Fenced code blocks.
+    /^\s*(?:```|~~~)/m,
+    // Bold, strikethrough and underline.
+    /(\*\*|__|~~|\+\+)(?=\S)[^\n]*?\S\1/,
+    // Links and images.
+    /!?\[[^\]\n]+\]\([^)\s]+[^)]*\)/,
+    // Tables.
+    /^.*\|.*\n\s*\|?\s*:?-+:?\s*\|/m,
+];
+
+/** Html elements that carry formatting the editor can import. */
+const formattingElementsSelector = 'b, strong, i, em, u, s, strike, del, sup, sub, mark, h1, h2, h3, h4, h5, h6, ul, ol, li, blockquote, pre, code, a, img, table';
+
+/**
+ * Check whether the given plain text is likely written in markdown.
+ * @param {string} text The plain text to check.
+ * @returns {boolean} Whether the text contains markdown syntax.
+ */
+export const isMarkdown = (text: string): boolean => {
+    return markdownPatterns.some((pattern) => pattern.test(text));
+};
+
+/**
+ * Check whether the given html contains formatting elements, as opposed to e.g. syntax highlighted source text.
+ * @param {string} html The html to check.
+ * @returns {boolean} Whether the html contains formatting the editor can import.
+ */
+const hasHtmlFormatting = (html: string): boolean => {
+    return !!new DOMParser().parseFromString(html, 'text/html').body.querySelector(formattingElementsSelector);
+};
+
+/**
+ * Replace the styled spans and wrappers that word processors like Word or Google Docs produce with semantic elements.
+ * @param {string} html The pasted html.
+ * @returns {string} The normalized html.
+ */
+export const normalizePastedHtml = (html: string): string => {
+    const document = new DOMParser().parseFromString(html, 'text/html');
+    // Google Docs wraps the whole content into a bold element that resets the font weight.
+    document.body.querySelectorAll('b[id^="docs-internal-guid"], b[style*="font-weight:normal"], b[style*="font-weight: normal"]').forEach((element) => {
+        element.replaceWith(...Array.from(element.childNodes));
+    });
+    document.body.querySelectorAll<HTMLElement>('span[style]').forEach((element) => {
+        const { fontWeight, fontStyle, textDecoration, textDecorationLine } = element.style;
+        const decoration = `${textDecoration} ${textDecorationLine}`;
+        const wrappers = [
+            (fontWeight === 'bold' || Number(fontWeight) >= 600) && 'strong',
+            fontStyle === 'italic' && 'em',
+            decoration.includes('underline') && 'u',
+            decoration.includes('line-through') && 's',
+        ].filter((tagName): tagName is string => !!tagName);
+        wrappers.forEach((tagName) => {
+            const wrapper = document.createElement(tagName);
+            wrapper.append(...Array.from(element.childNodes));
+            element.append(wrapper);
+        });
+    });
+    return document.body.innerHTML;
+};
+
+/**
+ * Reduce the given content to the block types and inline styles the editor supports.
+ * @param {ContentState} contentState The content to normalize.
+ * @returns {ContentState} The normalized content.
+ */
+export const normalizePastedContent = (contentState: ContentState): ContentState => {
+    const blockMap = contentState.getBlockMap().map((block) => {
+        if (!block) {
+            return block;
+        }
+        const characterList = block.getCharacterList().map((character) => {
+            if (!character) {
+                return character;
+            }
+            const style = character.getStyle().filter((inlineStyle) => !!inlineStyle && supportedInlineStyles.includes(inlineStyle));
+            return style.size === character.getStyle().size ? character : CharacterMetadata.create({ style: style.toOrderedSet(), entity: character.getEntity() });
+        });
+        const type = supportedBlockTypes.includes(block.getType()) ? block.getType() : 'unstyled';
+        return block.merge({ type, characterList }) as ContentBlock;
+    });
+    return contentState.merge({ blockMap }) as ContentState;
+};
+
+/**
+ * Convert pasted text into formatted content.
+ * Html is preferred if it contains formatting, otherwise plain text is converted if it is written in markdown.
+ * @param {string} text The pasted plain text.
+ * @param {string | undefined} html The pasted html.
+ * @returns {ContentState | undefined} The formatted content or undefined if the paste should be handled as plain text.
+ */
+export const getPastedContent = (text: string, html: string | undefined): ContentState | undefined => {
+    if (html && hasHtmlFormatting(html)) {
+        return normalizePastedContent(getEditorStateFromHtml(normalizePastedHtml(html)).getCurrentContent());
+    }
+    if (text && isMarkdown(text)) {
+        return normalizePastedContent(getEditorStateFromMarkdown(text).getCurrentContent());
+    }
+    return undefined;
+};
+
+/**
+ * Insert pasted content at the current selection, replacing the selected content.
+ * @param {EditorState} editorState The editor state to modify.
+ * @param {ContentState} pastedContent The content to insert.
+ * @returns {EditorState} The editor state with the inserted content.
+ */
+export const insertPastedContent = (editorState: EditorState, pastedContent: ContentState): EditorState => {
+    const blocks = pastedContent.getBlocksAsArray();
+    // The first and last pasted blocks are merged into the blocks around the cursor, which must not happen to atomic blocks.
+    if (blocks[0]?.getType() === 'atomic') {
+        blocks.unshift(new ContentBlock({ key: genKey(), type: 'unstyled' }));
+    }
+    if (blocks[blocks.length - 1]?.getType() === 'atomic') {
+        blocks.push(new ContentBlock({ key: genKey(), type: 'unstyled' }));
+    }
+    const newContentState = Modifier.replaceWithFragment(editorState.getCurrentContent(), editorState.getSelection(), BlockMapBuilder.createFromArray(blocks));
+    return EditorState.push(editorState, newContentState, 'insert-fragment');
+};
@@ -0,0 +1,106 @@
+import { JSXElementConstructor, KeyboardEvent } from 'react';
+import { ContentBlock, ContentState, DraftDecorator, DraftHandleValue, DraftStyleMap, EditorState } from 'draft-js';
+
+/** Callback to update the editor state of the text editor. */
+export type SetEditorState = (editorState: EditorState) => void;
+
+/** The properties draft js passes to the component of a custom block renderer. */
+export interface IBlockRendererComponentProps<P extends object> {
+    /** The block to render. */
+    block: ContentBlock;
+    /** The current content state of the editor. */
+    contentState: ContentState;
+    /** The properties of the block renderer. */
+    blockProps?: P;
+}
+
+/** A custom component to render a block with. */
+export interface IBlockRenderer {
+    /** The component to render the block with. Its `blockProps` may have any type, matching the properties of the renderer. */
+    component: JSXElementConstructor<IBlockRendererComponentProps<never>>;
+    /** Whether the text of the block can be edited. */
+    editable?: boolean;
+    /** The properties passed to the component as `blockProps`. */
+    props?: object;
+}
+
+/**
+ * A plugin that extends the text editor.
+ * All hooks are optional. Handlers return 'handled' to stop the text editor and later plugins from handling the event.
+ */
+export interface IEditorPlugin {
+    /** The unique name of the plugin. */
+    name: string;
+    /** Decorators to render ranges of the content with custom components. */
+    decorators?: DraftDecorator[];
+    /** Map a key event to a command, e.g. 'mention-select'. Return nothing to let other plugins and the default key bindings decide. */
+    keyBindingFn?: (event: KeyboardEvent) => string | null | undefined;
+    /** Handle a command of a key binding. */
+    handleKeyCommand?: (command: string, editorState: EditorState, setEditorState: SetEditorState) => DraftHandleValue;
+    /** Handle the return key. */
+    handleReturn?: (event: KeyboardEvent, editorState: EditorState, setEditorState: SetEditorState) => DraftHandleValue;
+    /** Handle typed characters before they are inserted. */
+    handleBeforeInput?: (chars: string, editorState: EditorState, setEditorState: SetEditorState) => DraftHandleValue;
+    /** Handle the tab key. */
+    onTab?: (event: KeyboardEvent, editorState: EditorState, setEditorState: SetEditorState) => DraftHandleValue;
+    /** Render blocks with a custom component. Return nothing to let other plugins and the text editor decide. */
+    blockRendererFn?: (block: ContentBlock, editorState: EditorState, setEditorState: SetEditorState) => IBlockRenderer | null | undefined;
+    /** Get additional css classes for a block. */
+    blockStyleFn?: (block: ContentBlock) => string | undefined;
+    /** Styles of custom inline styles by style name. */
+    customStyleMap?: DraftStyleMap;
+    /** Transform a content string before it is imported. */
+    beforeImport?: (content: string, contentType: string) => string;
+    /** Transform a content string after it was exported. */
+    afterExport?: (content: string, contentType: string) => string;
+}
+
+/**
+ * Let the plugins handle an event in order, until one of them handled it.
+ * @param {IEditorPlugin[]} plugins The plugins of the text editor.
+ * @param {(plugin: IEditorPlugin) => DraftHandleValue | undefined} handle Calls the handler of a plugin.
+ * @returns {DraftHandleValue} Whether a plugin handled the event.
+ */
+export const handleWithPlugins = (plugins: IEditorPlugin[], handle: (plugin: IEditorPlugin) => DraftHandleValue | undefined): DraftHandleValue => {
+    return plugins.some((plugin) => handle(plugin) === 'handled') ? 'handled' : 'not-handled';
+};
+
+/**
+ * Get the decorators of all plugins.
+ * @param {IEditorPlugin[]} plugins The plugins of the text editor.
+ * @returns {DraftDecorator[]} The decorators in plugin order.
+ */
+export const getPluginDecorators = (plugins: IEditorPlugin[]): DraftDecorator[] => {
+    return plugins.reduce<DraftDecorator[]>((decorators, plugin) => decorators.concat(plugin.decorators ?? []), []);
+};
+
+/**
+ * Merge the custom style maps of all plugins.
+ * @param {IEditorPlugin[]} plugins The plugins of the text editor.
+ * @returns {DraftStyleMap} The merged style map, later plugins override earlier ones.
+ */
+export const getPluginStyleMap = (plugins: IEditorPlugin[]): DraftStyleMap => {
+    return plugins.reduce<DraftStyleMap>((styleMap, plugin) => ({ ...styleMap, ...plugin.customStyleMap }), {});
+};
+
+/**
+ * Pass a content string through the import hooks of all plugins.
+ * @param {IEditorPlugin[]} plugins The plugins of the text editor.
+ * @param {string} content The content to import.
+ * @param {string} contentType The identifier of the content format.
+ * @returns {string} The transformed content.
+ */
+export const applyPluginImportHooks = (plugins: IEditorPlugin[], content: string, contentType: string): string => {
+    return plugins.reduce((result, plugin) => plugin.beforeImport?.(result, contentType) ?? result, content);
+};
+
+/**
+ * Pass a content string through the export hooks of all plugins.
+ * @param {IEditorPlugin[]} plugins The plugins of the text editor.
+ * @param {string} content The exported content.
+ * @param {string} contentType The identifier of the content format.
+ * @returns {string} The transformed content.
+ */
+export const applyPluginExportHooks = (plugins: IEditorPlugin[], content: string, contentType: string): string => {
+    return plugins.reduce((result, plugin) => plugin.afterExport?.(result, contentType) ?? result, content);
+};
@@ -0,0 +1,176 @@
+import { CharacterMetadata, ContentBlock, ContentState, EntityInstance } from 'draft-js';
+import { IImageData, imageEntityType } from './Image';
+
+/** Options of the sanitization applied to imported and exported content and to user entered urls. */
+export interface ISanitizeOptions {
+    /** The url schemes links may use. Relative urls are always allowed. */
+    allowedUrlSchemes: string[];
+    /** The url schemes images may use. Data urls are only allowed for image media types. */
+    allowedImageUrlSchemes: string[];
+    /** The elements that are removed including their content when importing html. */
+    forbiddenElements: string[];
+    /** The attributes that are removed from all elements when importing html, in addition to all event handler attributes. */
+    forbiddenAttributes: string[];
+    /** The css properties that are kept when the style attribute is forbidden, e.g. the alignment of blocks and the text styles. Values containing urls are removed. */
+    allowedStyleProperties: string[];
+}
+
+/** The current sanitize options. */
+let sanitizeOptions: ISanitizeOptions = {
+    allowedUrlSchemes: ['http', 'https', 'mailto', 'tel'],
+    allowedImageUrlSchemes: ['http', 'https', 'data'],
+    forbiddenElements: ['script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'link', 'meta', 'base', 'template', 'noscript', 'svg', 'math'],
+    forbiddenAttributes: ['style', 'srcdoc', 'formaction', 'xlink:href'],
+    allowedStyleProperties: ['text-align', 'color', 'background-color', 'font-size'],
+};
+
+/** The attributes that contain urls and need to be validated when importing html. */
+const urlAttributes = ['href', 'src', 'action', 'background', 'poster', 'cite'];
+
+/**
+ * Override parts of the sanitize options.
+ * @param {Partial<ISanitizeOptions>} options The options to override.
+ */
+export const configureSanitizer = (options: Partial<ISanitizeOptions>) => {
+    sanitizeOptions = { ...sanitizeOptions, ...options };
+};
+
+/**
+ * Get the current sanitize options.
+ * @returns {ISanitizeOptions} The current sanitize options.
+ */
+export const getSanitizeOptions = (): ISanitizeOptions => {
+    return sanitizeOptions;
+};
+
+/**
+ * Get the scheme of an url, ignoring whitespace and control characters that browsers ignore as well.
+ * @param {string} url The url to check.
+ * @returns {string | undefined} The lower case scheme or undefined for relative urls.
+ */
+const getUrlScheme = (url: string): string | undefined => {
+    // eslint-disable-next-line no-control-regex
+    const normalizedUrl = url.replace(/[\u0000- \u007F-\u009F]/g, '');
+    return normalizedUrl.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+};
+
+/**
+ * Check whether the given url is safe to use as link target.
+ * @param {string | undefined} url The url to check.
+ * @returns {boolean} Whether the url is relative or uses an allowed scheme.
+ */
+export const isSafeUrl = (url: string | undefined): boolean => {
+    if (!url) {
+        return false;
+    }
+    const scheme = getUrlScheme(url);
+    return scheme === undefined || sanitizeOptions.allowedUrlSchemes.includes(scheme);
+};
+
+/**
+ * Check whether the given url is safe to use as image source.
+ * @param {string | undefined} url The url to check.
+ * @returns {boolean} Whether the url is relative or uses an allowed scheme.
+ */
+export const isSafeImageUrl = (url: string | undefined): boolean => {
+    if (!url) {
+        return false;
+    }
+    const scheme = getUrlScheme(url);
+    if (scheme === 'data') {
+        return sanitizeOptions.allowedImageUrlSchemes.includes(scheme) && /^\s*data:image\/[a-z0-9.+-]+[;,]/i.test(url);
+    }
+    return scheme === undefined || sanitizeOptions.allowedImageUrlSchemes.includes(scheme);
+};
+
+/**
+ * Get the declarations of the style attribute of an element that use allowed css properties.
+ * @param {Element} element The element to get the declarations of.
+ * @returns {string} The allowed declarations, separated by semicolons.
+ */
+const getAllowedStyle = (element: Element): string => {
+    const style = (element as HTMLElement).style;
+    if (!style) {
+        return '';
+    }
+    return sanitizeOptions.allowedStyleProperties
+        .filter((property) => style.getPropertyValue(property) && !/url\(|expression\(/i.test(style.getPropertyValue(property)))
+        .map((property) => `${property}: ${style.getPropertyValue(property)}`)
+        .join('; ');
+};
+
+/**
+ * Remove forbidden elements, event handler attributes, unsafe urls and css properties that are not allowed from a html string.
+ * @param {string} htmlString The html string to sanitize.
+ * @returns {string} The sanitized html string.
+ */
+export const sanitizeHtml = (htmlString: string): string => {
+    const document = new DOMParser().parseFromString(htmlString, 'text/html');
+    sanitizeOptions.forbiddenElements.forEach((tagName) => document.body.querySelectorAll(tagName).forEach((element) => element.remove()));
+    document.body.querySelectorAll('*').forEach((element) => {
+        Array.from(element.attributes).forEach((attribute) => {
+            const name = attribute.name.toLowerCase();
+            const isUnsafeUrl = urlAttributes.includes(name) && !(name === 'src' && element.tagName === 'IMG' ? isSafeImageUrl(attribute.value) : isSafeUrl(attribute.value));
+            if (name.startsWith('on') || sanitizeOptions.forbiddenAttributes.includes(name) || isUnsafeUrl) {
+                const allowedStyle = name === 'style' ? getAllowedStyle(element) : '';
+                element.removeAttribute(attribute.name);
+                if (allowedStyle) {
+                    element.setAttribute('style', allowedStyle);
+                }
+            }
+        });
+    });
+    return document.body.innerHTML;
+};
+
+/**
+ * Check whether the url of a link or image entity is safe.
+ * @param {EntityInstance} entity The entity to check.
+ * @returns {boolean} Whether the entity may be kept.
+ */
+const isSafeEntity = (entity: EntityInstance): boolean => {
+    const data = entity.getData();
+    if (entity.getType() === 'LINK') {
+        return isSafeUrl(data.url ?? data.href);
+    }
+    if (entity.getType() === imageEntityType) {
+        return isSafeImageUrl((data as IImageData).src);
+    }
+    return true;
+};
+
+/**
+ * Remove links and images with unsafe urls from a content state, no matter which format it was imported from.
+ * @param {ContentState} contentState The content state to sanitize.
+ * @returns {ContentState} The sanitized content state.
+ */
+export const sanitizeContentState = (contentState: ContentState): ContentState => {
+    let isModified = false;
+    const blockMap = contentState.getBlockMap().map((block) => {
+        if (!block) {
+            return block;
+        }
+        if (block.getType() === 'atomic') {
+            const entityKey = block.getEntityAt(0);
+            if (!entityKey || isSafeEntity(contentState.getEntity(entityKey))) {
+                return block;
+            }
+            isModified = true;
+            return block.merge({ type: 'unstyled', text: '', characterList: block.getCharacterList().clear() }) as ContentBlock;
+        }
+        const hasUnsafeEntity = block.getCharacterList().some((character) => {
+            const entityKey = character?.getEntity();
+            return !!entityKey && !isSafeEntity(contentState.getEntity(entityKey));
+        });
+        if (!hasUnsafeEntity) {
+            return block;
+        }
+        isModified = true;
+        const characterList = block.getCharacterList().map((character) => {
+            const entityKey = character?.getEntity();
+            return character && entityKey && !isSafeEntity(contentState.getEntity(entityKey)) ? CharacterMetadata.applyEntity(character, null) : character;
+        });
+        return block.merge({ characterList }) as ContentBlock;
+    });
+    return isModified ? (contentState.merge({ blockMap }) as ContentState) : contentState;
+};
@@ -0,0 +1,227 @@
+import { ContentBlock, ContentState, DraftDecorator, EditorState, Modifier, SelectionState } from 'draft-js';
+import { DraftSearchMatch } from './DraftSearchMatch';
+
+/** Options of the find and replace search. */
+export interface ISearchOptions {
+    /** Whether upper and lower case letters are distinguished. */
+    caseSensitive: boolean;
+    /** Whether only whole words are matched. */
+    wholeWord: boolean;
+    /** Whether the query is a regular expression. */
+    regex: boolean;
+}
+
+/** A range of text that matches the search query. */
+export interface ISearchMatch {
+    /** The key of the block containing the match. */
+    blockKey: string;
+    /** The start offset of the match. */
+    start: number;
+    /** The end offset of the match. */
+    end: number;
+}
+
+/** The default search options. */
+export const defaultSearchOptions: ISearchOptions = {
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+};
+
+/**
+ * Escape a string for the use in a regular expression.
+ * @param {string} value The string to escape.
+ * @returns {string} The escaped string.
+ */
+export const escapeRegExp = (value: string): string => {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+/**
+ * Create the regular expression that finds all matches of a search query.
+ * @param {string} query The search query.
+ * @param {ISearchOptions} options The search options.
+ * @returns {RegExp | undefined} The global regular expression or undefined if the query is empty or no valid regular expression.
+ */
+export const createSearchRegExp = (query: string, options: ISearchOptions): RegExp | undefined => {
+    if (!query) {
+        return undefined;
+    }
+    const pattern = options.regex ? query : escapeRegExp(query);
+    try {
+        return new RegExp(options.wholeWord ? `(?<!\\w)(?:${pattern})(?!\\w)` : pattern, options.caseSensitive ? 'g' : 'gi');
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Find all non empty matches of a search regular expression in a block.
+ * @param {ContentBlock} block The block to search.
+ * @param {RegExp} searchRegExp The global search regular expression.
+ * @param {(start: number, end: number) => void} callback The callback to execute for each match.
+ */
+const findBlockMatches = (block: ContentBlock, searchRegExp: RegExp, callback: (start: number, end: number) => void) => {
+    const text = block.getText();
+    const regExp = new RegExp(searchRegExp.source, searchRegExp.flags);
+    let match = regExp.exec(text);
+    while (match) {
+        if (match[0].length) {
+            callback(match.index, match.index + match[0].length);
+        } else {
+            // Skip empty matches, e.g. of `a*`, which would never advance.
+            regExp.lastIndex++;
+        }
+        match = regExp.exec(text);
+    }
+};
+
+/**
+ * Find all matches of a search regular expression in the content.
+ * Atomic blocks like images and tables are skipped, as their text is only a placeholder.
+ * @param {ContentState} contentState The content to search.
+ * @param {RegExp | undefined} searchRegExp The global search regular expression.
+ * @returns {ISearchMatch[]} The matches in document order.
+ */
+export const findSearchMatches = (contentState: ContentState, searchRegExp: RegExp | undefined): ISearchMatch[] => {
+    const matches: ISearchMatch[] = [];
+    if (!searchRegExp) {
+        return matches;
+    }
+    contentState.getBlocksAsArray().forEach((block) => {
+        if (block.getType() !== 'atomic') {
+            findBlockMatches(block, searchRegExp, (start, end) => matches.push({ blockKey: block.getKey(), start, end }));
+        }
+    });
+    return matches;
+};
+
+/**
+ * Create the decorator that highlights all matches of a search regular expression.
+ * @param {RegExp} searchRegExp The global search regular expression.
+ * @returns {DraftDecorator} The search highlight decorator.
+ */
+export const createSearchDecorator = (searchRegExp: RegExp): DraftDecorator => {
+    return {
+        strategy: (block: ContentBlock, callback: (start: number, end: number) => void) => {
+            if (block.getType() !== 'atomic') {
+                findBlockMatches(block, searchRegExp, callback);
+            }
+        },
+        component: DraftSearchMatch,
+    };
+};
+
+/**
+ * Get the index of the first match at or after the selection, wrapping around to the first match.
+ * @param {ContentState} contentState The searched content.
+ * @param {ISearchMatch[]} matches The matches in document order.
+ * @param {SelectionState} selection The current selection.
+ * @returns {number} The index of the match or -1 if there are no matches.
+ */
+export const getSearchMatchIndexAfterSelection = (contentState: ContentState, matches: ISearchMatch[], selection: SelectionState): number => {
+    if (!matches.length) {
+        return -1;
+    }
+    const blockKeys = contentState.getBlockMap().keySeq().toArray();
+    const selectionBlockIndex = blockKeys.indexOf(selection.getStartKey());
+    const index = matches.findIndex((match) => {
+        const matchBlockIndex = blockKeys.indexOf(match.blockKey);
+        return matchBlockIndex > selectionBlockIndex || (matchBlockIndex === selectionBlockIndex && match.start >= selection.getStartOffset());
+    });
+    return index === -1 ? 0 : index;
+};
+
+/**
+ * Select a search match.
+ * @param {EditorState} editorState The current editor state.
+ * @param {ISearchMatch} match The match to select.
+ * @returns {EditorState} The editor state with the match selected.
+ */
+export const selectSearchMatch = (editorState: EditorState, match: ISearchMatch): EditorState => {
+    const selection = SelectionState.createEmpty(match.blockKey).merge({ anchorOffset: match.start, focusOffset: match.end }) as SelectionState;
+    return EditorState.forceSelection(editorState, selection);
+};
+
+/**
+ * Get the text that replaces a match. Regular expression replacements may reference groups like `$1`.
+ * The expression is run on the whole block text at the start of the match, so that lookarounds, anchors and word boundaries see the surrounding text.
+ * @param {ContentState} contentState The content containing the match.
+ * @param {ISearchMatch} match The match to replace.
+ * @param {string} replacement The replacement entered by the user.
+ * @param {RegExp} searchRegExp The global search regular expression.
+ * @returns {string} The replacement text.
+ */
+const getReplacementText = (contentState: ContentState, match: ISearchMatch, replacement: string, searchRegExp: RegExp): string => {
+    const text = contentState.getBlockForKey(match.blockKey).getText();
+    // A sticky expression only matches at its last index.
+    const regExp = new RegExp(searchRegExp.source, `${searchRegExp.flags.replace('g', '')}y`);
+    regExp.lastIndex = match.start;
+    const replacedText = text.replace(regExp, replacement);
+    return replacedText.slice(match.start, replacedText.length - (text.length - match.end));
+};
+
+/**
+ * Replace a single match in the content. The replacement takes over the inline style of the first matched character
+ * and a mutable entity like a link, if the whole match belongs to it, so that the surrounding formatting is kept.
+ * @param {ContentState} contentState The content to modify.
+ * @param {ISearchMatch} match The match to replace.
+ * @param {string} replacementText The text that replaces the match.
+ * @returns {ContentState} The content with the match replaced.
+ */
+const replaceMatchInContent = (contentState: ContentState, match: ISearchMatch, replacementText: string): ContentState => {
+    const block = contentState.getBlockForKey(match.blockKey);
+    const selection = SelectionState.createEmpty(match.blockKey).merge({ anchorOffset: match.start, focusOffset: match.end }) as SelectionState;
+    const entityKey = block.getEntityAt(match.start);
+    const isEntityKept = !!entityKey && entityKey === block.getEntityAt(match.end - 1) && contentState.getEntity(entityKey).getMutability() === 'MUTABLE';
+    return Modifier.replaceText(contentState, selection, replacementText, block.getInlineStyleAt(match.start), isEntityKept ? entityKey : undefined);
+};
+
+/**
+ * Replace a single match as own undo step.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {ISearchMatch} match The match to replace.
+ * @param {string} replacement The replacement entered by the user.
+ * @param {RegExp} searchRegExp The global search regular expression.
+ */
+export const replaceSearchMatch = (
+    editorState: EditorState,
+    setEditorState: (editorState: EditorState) => void,
+    match: ISearchMatch,
+    replacement: string,
+    searchRegExp: RegExp,
+) => {
+    const currentContent = editorState.getCurrentContent();
+    const contentState = replaceMatchInContent(currentContent, match, getReplacementText(currentContent, match, replacement, searchRegExp));
+    setEditorState(EditorState.push(editorState, contentState, 'insert-fragment'));
+};
+
+/**
+ * Replace all matches as a single undo step.
+ * @param {EditorState} editorState The current editor state to modify.
+ * @param {(editorState: EditorState) => void} setEditorState The callback to update the editor state.
+ * @param {ISearchMatch[]} matches The matches in document order.
+ * @param {string} replacement The replacement entered by the user.
+ * @param {RegExp} searchRegExp The global search regular expression.
+ */
+export const replaceAllSearchMatches = (
+    editorState: EditorState,
+    setEditorState: (editorState: EditorState) => void,
+    matches: ISearchMatch[],
+    replacement: string,
+    searchRegExp: RegExp,
+) => {
+    if (!matches.length) {
+        return;
+    }
+    // The replacement texts are determined before replacing, so that lookarounds see the original text.
+    const currentContent = editorState.getCurrentContent();
+    const replacementTexts = matches.map((match) => getReplacementText(currentContent, match, replacement, searchRegExp));
+    // Replace from the end, so that the offsets of the remaining matches stay valid.
+    const contentState = matches.reduceRight((currentContentState, match, index) => replaceMatchInContent(currentContentState, match, replacementTexts[index]), currentContent);
+    const selection = editorState.getSelection();
+    const newContentState = contentState.merge({ selectionBefore: selection, selectionAfter: contentState.getSelectionAfter() }) as ContentState;
+    // Insert fragment always starts a new undo step, unlike insert characters which is merged with preceding typing.
+    setEditorState(EditorState.push(editorState, newContentState, 'insert-fragment'));
+};
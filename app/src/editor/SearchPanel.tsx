@@ -0,0 +1,191 @@
+import React, { FormEvent, FunctionComponent, KeyboardEvent, RefObject, useContext } from 'react';
+import styled from 'styled-components';
+import { DefaultButton, IButtonStyles, IconButton, IPalette, ITextField, Text, TextField, useTheme } from '@fluentui/react';
+import { ISearchOptions } from './Search';
+import { formatString, TextEditorStringsContext } from './Strings';
+
+interface IThemed {
+    palette: IPalette;
+}
+
+const PanelContainer = styled.div<IThemed>`
+    display: flex;
+    flex-direction: column;
+    gap: 5px;
+    margin: 0 5px;
+    padding: 0 0 5px;
+    border-bottom: 1px solid ${(props) => props.palette.black};
+`;
+
+const PanelRow = styled.div`
+    display: flex;
+    align-items: center;
+    gap: 5px;
+`;
+
+const ReplaceIndent = styled.div`
+    width: 32px;
+    flex-shrink: 0;
+`;
+
+const MatchCount = styled.div`
+    min-width: 110px;
+`;
+
+/** Styles of the small toggle buttons of the search options. */
+const optionButtonStyles: IButtonStyles = {
+    root: { minWidth: 32, padding: '0 4px' },
+};
+
+export interface ISearchPanelProps {
+    /** Whether the replace field and actions are displayed. */
+    isReplaceVisible: boolean;
+    /** The search query. */
+    query: string;
+    /** The replacement text. */
+    replacement: string;
+    /** The search options. */
+    options: ISearchOptions;
+    /** The number of matches. */
+    matchCount: number;
+    /** The index of the current match or -1 if no match is selected. */
+    currentMatchIndex: number;
+    /** Whether the query is no valid regular expression. */
+    isQueryInvalid: boolean;
+    /** Reference to the search field, used to focus it. */
+    searchFieldRef: RefObject<ITextField>;
+    /** Callback to execute when the search query changes. */
+    onQueryChange: (query: string) => void;
+    /** Callback to execute when the replacement text changes. */
+    onReplacementChange: (replacement: string) => void;
+    /** Callback to execute when the search options change. */
+    onOptionsChange: (options: ISearchOptions) => void;
+    /** Callback to execute to navigate to the next match. */
+    onNext: () => void;
+    /** Callback to execute to navigate to the previous match. */
+    onPrevious: () => void;
+    /** Callback to execute to replace the current match. */
+    onReplace: () => void;
+    /** Callback to execute to replace all matches. */
+    onReplaceAll: () => void;
+    /** Callback to execute to show or hide the replace field. */
+    onToggleReplace: () => void;
+    /** Callback to execute to close the panel. */
+    onClose: () => void;
+}
+
+/**
+ * Panel to find and replace text in the editor.
+ * @param {ISearchPanelProps} props The search panel properties.
+ * @returns {FunctionComponent} The search panel component.
+ */
+export const SearchPanel: FunctionComponent<ISearchPanelProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+    /** The texts of the editor. */
+    const strings = useContext(TextEditorStringsContext);
+
+    /** The text describing the matches. */
+    const matchCountText = props.isQueryInvalid
+        ? strings.invalidExpression
+        : props.query && !props.matchCount
+          ? strings.noResults
+          : props.matchCount
+            ? formatString(strings.matchPosition, { current: props.currentMatchIndex + 1 || '?', total: props.matchCount })
+            : '';
+
+    /**
+     * Handle key presses in the search field: enter navigates forwards, shift and enter backwards and escape closes the panel.
+     * @param {KeyboardEvent} event The occurred keyboard event.
+     */
+    const onSearchFieldKeyDown = (event: KeyboardEvent) => {
+        if (event.key === 'Enter') {
+            event.preventDefault();
+            if (event.shiftKey) {
+                props.onPrevious();
+            } else {
+                props.onNext();
+            }
+        } else if (event.key === 'Escape') {
+            event.preventDefault();
+            props.onClose();
+        }
+    };
+
+    /**
+     * Handle key presses in the replace field: enter replaces the current match and escape closes the panel.
+     * @param {KeyboardEvent} event The occurred keyboard event.
+     */
+    const onReplaceFieldKeyDown = (event: KeyboardEvent) => {
+        if (event.key === 'Enter') {
+            event.preventDefault();
+            props.onReplace();
+        } else if (event.key === 'Escape') {
+            event.preventDefault();
+            props.onClose();
+        }
+    };
+
+    /**
+     * Create a toggle button of a search option.
+     * @param {keyof ISearchOptions} option The option to toggle.
+     * @param {string} text The text of the button.
+     * @param {string} title The tooltip of the button.
+     * @returns {React.ReactElement} The toggle button.
+     */
+    const renderOptionButton = (option: keyof ISearchOptions, text: string, title: string): React.ReactElement => (
+        <DefaultButton
+            toggle
+            text={text}
+            title={title}
+            checked={props.options[option]}
+            styles={optionButtonStyles}
+            onClick={() => props.onOptionsChange({ ...props.options, [option]: !props.options[option] })}
+        />
+    );
+
+    return (
+        <PanelContainer palette={theme.palette} role="search">
+            <PanelRow>
+                <IconButton
+                    title={props.isReplaceVisible ? strings.hideReplace : strings.showReplace}
+                    iconProps={{ iconName: props.isReplaceVisible ? 'ChevronDown' : theme.rtl ? 'ChevronLeft' : 'ChevronRight' }}
+                    onClick={props.onToggleReplace}
+                />
+                <TextField
+                    componentRef={props.searchFieldRef}
+                    ariaLabel={strings.find}
+                    placeholder={strings.find}
+                    value={props.query}
+                    onKeyDown={onSearchFieldKeyDown}
+                    onChange={(_: FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string | undefined) => props.onQueryChange(newValue ?? '')}
+                />
+                {renderOptionButton('caseSensitive', 'Aa', strings.matchCase)}
+                {renderOptionButton('wholeWord', 'ab', strings.matchWholeWord)}
+                {renderOptionButton('regex', '.*', strings.useRegularExpression)}
+                <MatchCount>
+                    <Text variant="small" aria-live="polite">
+                        {matchCountText}
+                    </Text>
+                </MatchCount>
+                <IconButton title={strings.previousMatch} iconProps={{ iconName: 'ChevronUp' }} disabled={!props.matchCount} onClick={props.onPrevious} />
+                <IconButton title={strings.nextMatch} iconProps={{ iconName: 'ChevronDown' }} disabled={!props.matchCount} onClick={props.onNext} />
+                <IconButton title={strings.closeSearch} iconProps={{ iconName: 'Cancel' }} onClick={props.onClose} />
+            </PanelRow>
+            {props.isReplaceVisible && (
+                <PanelRow>
+                    <ReplaceIndent />
+                    <TextField
+                        ariaLabel={strings.replace}
+                        placeholder={strings.replace}
+                        value={props.replacement}
+                        onKeyDown={onReplaceFieldKeyDown}
+                        onChange={(_: FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string | undefined) => props.onReplacementChange(newValue ?? '')}
+                    />
+                    <DefaultButton text={strings.replace} disabled={!props.matchCount} onClick={props.onReplace} />
+                    <DefaultButton text={strings.replaceAll} disabled={!props.matchCount} onClick={props.onReplaceAll} />
+                </PanelRow>
+            )}
+        </PanelContainer>
+    );
+};
@@ -0,0 +1,89 @@
+import { ContentBlock, ContentState, EditorState } from 'draft-js';
+
+/** Word and character counts of a text. */
+export interface ITextStatistics {
+    /** The number of words. */
+    words: number;
+    /** The number of characters, not counting the breaks between blocks. */
+    characters: number;
+}
+
+/** The average number of words read per minute, used to estimate the reading time. */
+const wordsPerMinute = 200;
+
+/**
+ * Count the words of a text. Words are separated by whitespace.
+ * @param {string} text The text to count the words of.
+ * @returns {number} The number of words.
+ */
+const countWords = (text: string): number => {
+    return text.split(/\s+/).filter((word) => !!word).length;
+};
+
+/**
+ * Get the text of a block that counts towards the statistics. Atomic blocks like images and tables only hold a placeholder character.
+ * @param {ContentBlock} block The block.
+ * @returns {string} The counted text of the block.
+ */
+const getCountedBlockText = (block: ContentBlock): string => {
+    return block.getType() === 'atomic' ? '' : block.getText();
+};
+
+/**
+ * Get the word and character counts of the whole content.
+ * @param {ContentState} contentState The content to count.
+ * @returns {ITextStatistics} The counts of the content.
+ */
+export const getContentStatistics = (contentState: ContentState): ITextStatistics => {
+    return contentState.getBlocksAsArray().reduce(
+        (statistics, block) => {
+            const text = getCountedBlockText(block);
+            return { words: statistics.words + countWords(text), characters: statistics.characters + text.length };
+        },
+        { words: 0, characters: 0 },
+    );
+};
+
+/**
+ * Get the word and character counts of the current selection.
+ * @param {EditorState} editorState The current editor state.
+ * @returns {ITextStatistics} The counts of the selected text.
+ */
+export const getSelectionStatistics = (editorState: EditorState): ITextStatistics => {
+    const selection = editorState.getSelection();
+    if (selection.isCollapsed()) {
+        return { words: 0, characters: 0 };
+    }
+    const contentState = editorState.getCurrentContent();
+    const blocks = contentState.getBlocksAsArray();
+    const startIndex = blocks.findIndex((block) => block.getKey() === selection.getStartKey());
+    const endIndex = blocks.findIndex((block) => block.getKey() === selection.getEndKey());
+    return blocks.slice(startIndex, endIndex + 1).reduce(
+        (statistics, block) => {
+            const start = block.getKey() === selection.getStartKey() ? selection.getStartOffset() : 0;
+            const end = block.getKey() === selection.getEndKey() ? selection.getEndOffset() : block.getLength();
+            const text = getCountedBlockText(block).slice(start, end);
+            return { words: statistics.words + countWords(text), characters: statistics.characters + text.length };
+        },
+        { words: 0, characters: 0 },
+    );
+};
+
+/**
+ * Estimate the reading time of a number of words.
+ * @param {number} words The number of words.
+ * @returns {number} The reading time in whole minutes, at least one minute for any text.
+ */
+export const getReadingTimeMinutes = (words: number): number => {
+    return Math.ceil(words / wordsPerMinute);
+};
+
+/**
+ * Get the number of characters that can still be inserted in place of the current selection without exceeding a maximum length.
+ * @param {EditorState} editorState The current editor state.
+ * @param {number} maxLength The maximum number of characters.
+ * @returns {number} The number of characters that can be inserted.
+ */
+export const getRemainingLength = (editorState: EditorState, maxLength: number): number => {
+    return maxLength - getContentStatistics(editorState.getCurrentContent()).characters + getSelectionStatistics(editorState).characters;
+};
@@ -0,0 +1,86 @@
+import React, { FunctionComponent, useContext } from 'react';
+import styled from 'styled-components';
+import { IPalette, Text, useTheme } from '@fluentui/react';
+import { getReadingTimeMinutes, ITextStatistics } from './Statistics';
+import { formatString, TextEditorStringsContext } from './Strings';
+
+interface IThemed {
+    palette: IPalette;
+}
+
+/** The state of the character count compared to the maximum length. */
+export type LengthLimitState = 'none' | 'near' | 'reached';
+
+interface ILengthCount extends IThemed {
+    /** The state of the limit, transient so that it is not passed to the dom. */
+    $limitState: LengthLimitState;
+}
+
+const StatusBarContainer = styled.div<IThemed>`
+    display: flex;
+    flex-wrap: wrap;
+    gap: 20px;
+    margin: 0 5px;
+    padding: 5px 10px;
+    border-top: 1px solid ${(props) => props.palette.black};
+    color: ${(props) => props.palette.neutralSecondary};
+`;
+
+const LengthCount = styled.span<ILengthCount>`
+    color: ${(props) => (props.$limitState === 'reached' ? props.palette.red : props.$limitState === 'near' ? props.palette.orange : 'inherit')};
+    font-weight: ${(props) => (props.$limitState === 'none' ? 'normal' : 600)};
+`;
+
+export interface IStatusBarProps {
+    /** The counts of the whole content. */
+    statistics: ITextStatistics;
+    /** The counts of the current selection. */
+    selectionStatistics: ITextStatistics;
+    /** The length of the content in the exported format. */
+    exportedLength: number;
+    /** The display name of the exported format, e.g. 'Markdown'. */
+    contentTypeName?: string;
+    /** The maximum number of characters. */
+    maxLength?: number;
+    /** The state of the character count compared to the maximum length. */
+    limitState: LengthLimitState;
+}
+
+/**
+ * Status bar displaying the word and character counts and the reading time of the content and the selection.
+ * @param {IStatusBarProps} props The status bar properties.
+ * @returns {FunctionComponent} The status bar component.
+ */
+export const StatusBar: FunctionComponent<IStatusBarProps> = (props) => {
+    /** Access to the theme. */
+    const theme = useTheme();
+    /** The texts of the editor. */
+    const strings = useContext(TextEditorStringsContext);
+
+    /** Whether text is selected. */
+    const hasSelection = props.selectionStatistics.characters > 0;
+
+    /** The displayed number of words, compared to the total number if text is selected. */
+    const words = hasSelection ? formatString(strings.selectedCount, { selected: props.selectionStatistics.words, total: props.statistics.words }) : props.statistics.words;
+    /** The displayed number of characters, compared to the maximum length if set. */
+    const totalCharacters =
+        props.maxLength !== undefined ? formatString(strings.limitedCount, { count: props.statistics.characters, maxLength: props.maxLength }) : props.statistics.characters;
+    /** The displayed number of characters, compared to the total number if text is selected. */
+    const characters = hasSelection ? formatString(strings.selectedCount, { selected: props.selectionStatistics.characters, total: totalCharacters }) : totalCharacters;
+
+    return (
+        <StatusBarContainer palette={theme.palette}>
+            <Text variant="small">{formatString(strings.wordCount, { count: words })}</Text>
+            <Text variant="small">
+                <LengthCount palette={theme.palette} $limitState={props.limitState}>
+                    {formatString(strings.characterCount, { count: characters })}
+                    {props.maxLength !== undefined &&
+                        props.limitState !== 'none' &&
+                        ` ${formatString(strings.remainingCharacters, { count: Math.max(props.maxLength - props.statistics.characters, 0) })}`}
+                </LengthCount>
+            </Text>
+            <Text variant="small">{formatString(strings.exportedLength, { count: props.exportedLength, format: props.contentTypeName ?? strings.exportedFormat })}</Text>
+            <Text variant="small">{formatString(strings.readingTime, { minutes: getReadingTimeMinutes(props.statistics.words) })}</Text>
+        </StatusBarContainer>
+    );
+};
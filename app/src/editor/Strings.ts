@@ -0,0 +1,349 @@
+import { createContext } from 'react';
+
+/**
+ * All texts the editor displays. Texts with placeholders in curly braces, e.g. `{count}`, are formatted with `formatString`.
+ */
+export interface ITextEditorStrings {
+    /** Option of the block type menu for normal text. */
+    paragraph: string;
+    /** Option of the block type menu for the first level headline. */
+    headline1: string;
+    /** Option of the block type menu for the second level headline. */
+    headline2: string;
+    /** Option of the block type menu for the third level headline. */
+    headline3: string;
+    /** Option of the block type menu for the fourth level headline. */
+    headline4: string;
+    /** Option of the block type menu for the fifth level headline. */
+    headline5: string;
+    /** Option of the block type menu for the sixth level headline. */
+    headline6: string;
+    /** Placeholder of the code language dropdown. */
+    codeLanguage: string;
+    /** Option of the code language dropdown for code without highlighting. */
+    plainText: string;
+    /** Name of the control key in keyboard shortcuts. */
+    controlKey: string;
+    /** Name of the command key in keyboard shortcuts. */
+    commandKey: string;
+    /** Name of the shift key in keyboard shortcuts. */
+    shiftKey: string;
+    /** Name of the alt key in keyboard shortcuts on windows / linux. */
+    altKey: string;
+    /** Name of the option key in keyboard shortcuts on mac. */
+    optionKey: string;
+    /** Accessible label of the toolbar. */
+    toolbarLabel: string;
+    /** Hint how to move the focus from the editor to the toolbar, read by screen readers. Placeholder: `{shortcut}`, the key combo. */
+    toolbarHint: string;
+    /** Accessible label and placeholder of the block type menu. */
+    blockType: string;
+    /** Toolbar button that toggles bold text. */
+    bold: string;
+    /** Toolbar button that toggles italic text. */
+    italic: string;
+    /** Toolbar button that toggles underlined text. */
+    underline: string;
+    /** Toolbar button that toggles struck through text. */
+    strikethrough: string;
+    /** Toolbar button that toggles inline code. */
+    inlineCode: string;
+    /** Toolbar button that toggles superscript text. */
+    superscript: string;
+    /** Toolbar button that toggles subscript text. */
+    subscript: string;
+    /** Toolbar button that toggles highlighted text. */
+    highlight: string;
+    /** Toolbar button that removes the inline styles of the selected text and turns the selected blocks into paragraphs. */
+    clearFormatting: string;
+    /** Accessible label and placeholder of the font size selector. */
+    fontSize: string;
+    /** Option of the font size selector that removes the font size. */
+    defaultFontSize: string;
+    /** Toolbar button that opens the text color menu. */
+    textColor: string;
+    /** Toolbar button that opens the highlight color menu. */
+    highlightColor: string;
+    /** Button of the color menus that removes the color. */
+    removeColor: string;
+    /** Name of the red color of the color menus. */
+    colorRed: string;
+    /** Name of the orange color of the color menus. */
+    colorOrange: string;
+    /** Name of the yellow color of the color menus. */
+    colorYellow: string;
+    /** Name of the green color of the color menus. */
+    colorGreen: string;
+    /** Name of the blue color of the color menus. */
+    colorBlue: string;
+    /** Name of the purple color of the color menus. */
+    colorPurple: string;
+    /** Name of the pink color of the color menus. */
+    colorPink: string;
+    /** Name of the gray color of the color menus. */
+    colorGray: string;
+    /** Button of the color menus that applies the color of the color picker. */
+    applyCustomColor: string;
+    /** Toolbar button and block type menu option that toggles an unordered list. */
+    unorderedList: string;
+    /** Toolbar button and block type menu option that toggles an ordered list. */
+    orderedList: string;
+    /** Toolbar button and block type menu option that toggles a checkable list. */
+    checkList: string;
+    /** Toolbar button that decreases the indent of list items. */
+    outdent: string;
+    /** Toolbar button that increases the indent of list items. */
+    indent: string;
+    /** Toolbar button that toggles the left alignment of the selected blocks. */
+    alignLeft: string;
+    /** Toolbar button that toggles the centered alignment of the selected blocks. */
+    alignCenter: string;
+    /** Toolbar button that toggles the right alignment of the selected blocks. */
+    alignRight: string;
+    /** Toolbar button that toggles the justified alignment of the selected blocks. */
+    alignJustify: string;
+    /** Toolbar button and block type menu option that toggles a blockquote. */
+    blockquote: string;
+    /** Toolbar button and block type menu option that toggles a code block. */
+    codeBlock: string;
+    /** Toolbar button that inserts a table. */
+    insertTable: string;
+    /** Toolbar button that opens the link dialog. */
+    insertLink: string;
+    /** Toolbar button that opens the image dialog. */
+    insertImage: string;
+    /** Toolbar button that undoes the last change. */
+    undo: string;
+    /** Toolbar button that redoes the last undone change. */
+    redo: string;
+    /** Announcement of an activated format. Placeholder: `{format}`, the name of the format. */
+    formatOn: string;
+    /** Announcement of a deactivated format. Placeholder: `{format}`, the name of the format. */
+    formatOff: string;
+
+    /** Title of the link dialog when inserting a link. */
+    insertLinkTitle: string;
+    /** Title of the link dialog when editing a link. */
+    editLinkTitle: string;
+    /** Label of the url fields of the link and image dialogs. */
+    urlLabel: string;
+    /** Label of the link text field. */
+    linkTextLabel: string;
+    /** Label of the link title field. */
+    linkTitleLabel: string;
+    /** Label of the link target dropdown. */
+    linkTargetLabel: string;
+    /** Option of the link target dropdown to open the link in a new window. */
+    linkTargetNewWindow: string;
+    /** Option of the link target dropdown to open the link in the same window. */
+    linkTargetSameWindow: string;
+    /** Label of the link rel field. */
+    linkRelLabel: string;
+    /** Button that inserts the link. */
+    addLink: string;
+    /** Button that saves the edited link. */
+    saveLink: string;
+    /** Error of invalid link urls. Placeholder: `{schemes}`, the allowed url schemes. */
+    invalidUrl: string;
+    /** Title of the image dialog. */
+    insertImageTitle: string;
+    /** Label of the image alternative text field. */
+    imageAltLabel: string;
+    /** Button that inserts the image. */
+    addImage: string;
+    /** Error of invalid image urls. */
+    invalidImageUrl: string;
+    /** Button that closes a dialog without changes. */
+    abort: string;
+
+    /** Action of the link card that edits the link. */
+    editLink: string;
+    /** Action of the link card that opens the link. */
+    openLink: string;
+    /** Action of the link card and toolbar button that removes the link. */
+    removeLink: string;
+
+    /** Table control that inserts a row. */
+    insertRowBelow: string;
+    /** Table control that deletes a row. */
+    deleteRow: string;
+    /** Table control that inserts a column. */
+    insertColumnRight: string;
+    /** Table control that deletes a column. */
+    deleteColumn: string;
+    /** Table control that deletes the table. */
+    deleteTable: string;
+
+    /** Placeholder and label of the search field. */
+    find: string;
+    /** Placeholder and label of the replacement field, and the button that replaces the current match. */
+    replace: string;
+    /** Button that replaces all matches. */
+    replaceAll: string;
+    /** Button that shows the replacement field. */
+    showReplace: string;
+    /** Button that hides the replacement field. */
+    hideReplace: string;
+    /** Search option to match the case. */
+    matchCase: string;
+    /** Search option to match whole words. */
+    matchWholeWord: string;
+    /** Search option to use regular expressions. */
+    useRegularExpression: string;
+    /** Button that navigates to the previous match. */
+    previousMatch: string;
+    /** Button that navigates to the next match. */
+    nextMatch: string;
+    /** Button that closes the search panel. */
+    closeSearch: string;
+    /** Status of a search query that is no valid regular expression. */
+    invalidExpression: string;
+    /** Status of a search without matches. */
+    noResults: string;
+    /** Status of the current match. Placeholders: `{current}` and `{total}`. */
+    matchPosition: string;
+
+    /** Count of words in the status bar. Placeholder: `{count}`. */
+    wordCount: string;
+    /** Count of characters in the status bar. Placeholder: `{count}`. */
+    characterCount: string;
+    /** Count of a selection within the total count. Placeholders: `{selected}` and `{total}`. */
+    selectedCount: string;
+    /** Count of characters within the maximum length. Placeholders: `{count}` and `{maxLength}`. */
+    limitedCount: string;
+    /** Number of characters left until the maximum length. Placeholder: `{count}`. */
+    remainingCharacters: string;
+    /** Length of the exported content. Placeholders: `{count}` and `{format}`, the name of the content format. */
+    exportedLength: string;
+    /** Name of the exported format in the status bar, if the format has no display name. */
+    exportedFormat: string;
+    /** Estimated reading time. Placeholder: `{minutes}`. */
+    readingTime: string;
+}
+
+/** The built in english texts of the editor. */
+export const defaultTextEditorStrings: ITextEditorStrings = {
+    paragraph: 'Paragraph',
+    headline1: 'Headline 1',
+    headline2: 'Headline 2',
+    headline3: 'Headline 3',
+    headline4: 'Headline 4',
+    headline5: 'Headline 5',
+    headline6: 'Headline 6',
+    codeLanguage: 'Language',
+    plainText: 'Plain text',
+    controlKey: 'Ctrl',
+    commandKey: 'CMD',
+    shiftKey: 'Shift',
+    altKey: 'Alt',
+    optionKey: 'Option',
+    toolbarLabel: 'Formatting',
+    toolbarHint: 'Press {shortcut} to move to the toolbar.',
+    blockType: 'Block type',
+    bold: 'Bold',
+    italic: 'Italic',
+    underline: 'Underline',
+    strikethrough: 'Strikethrough',
+    inlineCode: 'Inline code',
+    superscript: 'Superscript',
+    subscript: 'Subscript',
+    highlight: 'Highlight',
+    clearFormatting: 'Clear formatting',
+    fontSize: 'Font size',
+    defaultFontSize: 'Default',
+    textColor: 'Text color',
+    highlightColor: 'Highlight color',
+    removeColor: 'Remove color',
+    colorRed: 'Red',
+    colorOrange: 'Orange',
+    colorYellow: 'Yellow',
+    colorGreen: 'Green',
+    colorBlue: 'Blue',
+    colorPurple: 'Purple',
+    colorPink: 'Pink',
+    colorGray: 'Gray',
+    applyCustomColor: 'Apply custom color',
+    unorderedList: 'Bulleted list',
+    orderedList: 'Numbered list',
+    checkList: 'Checklist',
+    outdent: 'Decrease indent',
+    indent: 'Increase indent',
+    alignLeft: 'Align left',
+    alignCenter: 'Center',
+    alignRight: 'Align right',
+    alignJustify: 'Justify',
+    blockquote: 'Quote',
+    codeBlock: 'Code block',
+    insertTable: 'Insert table',
+    insertLink: 'Insert link',
+    insertImage: 'Insert image',
+    undo: 'Undo',
+    redo: 'Redo',
+    formatOn: '{format} on',
+    formatOff: '{format} off',
+
+    insertLinkTitle: 'Insert Link',
+    editLinkTitle: 'Edit Link',
+    urlLabel: 'URL',
+    linkTextLabel: 'Text',
+    linkTitleLabel: 'Title',
+    linkTargetLabel: 'Open in',
+    linkTargetNewWindow: 'New window',
+    linkTargetSameWindow: 'Same window',
+    linkRelLabel: 'Rel',
+    addLink: 'Add Link',
+    saveLink: 'Save Link',
+    invalidUrl: 'Please enter a valid url. Allowed schemes: {schemes}.',
+    insertImageTitle: 'Insert Image',
+    imageAltLabel: 'Alternative text',
+    addImage: 'Add Image',
+    invalidImageUrl: 'Please enter a valid image url.',
+    abort: 'Abort',
+
+    editLink: 'Edit link',
+    openLink: 'Open link',
+    removeLink: 'Remove link',
+
+    insertRowBelow: 'Insert row below',
+    deleteRow: 'Delete row',
+    insertColumnRight: 'Insert column right',
+    deleteColumn: 'Delete column',
+    deleteTable: 'Delete table',
+
+    find: 'Find',
+    replace: 'Replace',
+    replaceAll: 'Replace all',
+    showReplace: 'Show replace',
+    hideReplace: 'Hide replace',
+    matchCase: 'Match case',
+    matchWholeWord: 'Match whole word',
+    useRegularExpression: 'Use regular expression',
+    previousMatch: 'Previous match (Shift+Enter)',
+    nextMatch: 'Next match (Enter)',
+    closeSearch: 'Close (Escape)',
+    invalidExpression: 'Invalid expression',
+    noResults: 'No results',
+    matchPosition: '{current} of {total}',
+
+    wordCount: '{count} words',
+    characterCount: '{count} characters',
+    selectedCount: '{selected} of {total}',
+    limitedCount: '{count} / {maxLength}',
+    remainingCharacters: '({count} left)',
+    exportedLength: '{count} characters {format}',
+    exportedFormat: 'exported',
+    readingTime: '{minutes} min read',
+};
+
+/** Context to pass the texts from the text editor to the components rendered inside of it. */
+export const TextEditorStringsContext = createContext<ITextEditorStrings>(defaultTextEditorStrings);
+
+/**
+ * Replace the placeholders of a text, e.g. `{count}`, with the given values. Unknown placeholders are kept.
+ * @param {string} text The text with placeholders.
+ * @param {{ [placeholder: string]: string | number }} values The values by placeholder name.
+ * @returns {string} The formatted text.
+ */
+export const formatString = (text: string, values: { [placeholder: string]: string | number }): string => {
+    return text.replace(/\{(\w+)\}/g, (placeholder: string, name: string) => (name in values ? String(values[name]) : placeholder));
+};
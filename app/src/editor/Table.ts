@@ -0,0 +1,133 @@
+/** The entity type used for table blocks. */
+export const tableEntityType = 'TABLE';
+
+/** The entity data stored for a table block. The first row is the header row. */
+export interface ITableData {
+    /** The plain text content of all cells, row by row. */
+    rows: string[][];
+}
+
+/** Matches the delimiter row of a GFM table, e.g. `| --- | :---: |`. */
+const markdownTableDelimiterRowRegex = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Create the rows of a new table with empty cells.
+ * @param {number} rowCount The number of rows including the header row.
+ * @param {number} columnCount The number of columns.
+ * @returns {string[][]} The empty table rows.
+ */
+export const createEmptyTableRows = (rowCount: number, columnCount: number): string[][] => {
+    return Array.from({ length: rowCount }, () => Array.from({ length: columnCount }, () => ''));
+};
+
+/**
+ * Make sure every row of the table has the same amount of cells.
+ * @param {string[][]} rows The table rows to normalize.
+ * @returns {string[][]} The table rows padded to the widest row.
+ */
+export const normalizeTableRows = (rows: string[][]): string[][] => {
+    const columnCount = Math.max(1, ...rows.map((row) => row.length));
+    return rows.map((row) => [...row, ...Array.from({ length: columnCount - row.length }, () => '')]);
+};
+
+/**
+ * Split a single markdown table row into its cell values.
+ * @param {string} line The markdown line of the table row.
+ * @returns {string[]} The unescaped cell values.
+ */
+const splitMarkdownTableRow = (line: string): string[] => {
+    let trimmedLine = line.trim();
+    if (trimmedLine.startsWith('|')) {
+        trimmedLine = trimmedLine.substring(1);
+    }
+    if (trimmedLine.endsWith('|') && !trimmedLine.endsWith('\\|')) {
+        trimmedLine = trimmedLine.substring(0, trimmedLine.length - 1);
+    }
+    const cells: string[] = [''];
+    for (let index = 0; index < trimmedLine.length; index++) {
+        const character = trimmedLine[index];
+        if (character === '\\' && trimmedLine[index + 1] === '|') {
+            cells[cells.length - 1] += '|';
+            index++;
+        } else if (character === '|') {
+            cells.push('');
+        } else {
+            cells[cells.length - 1] += character;
+        }
+    }
+    return cells.map((cell) => cell.trim());
+};
+
+/**
+ * Check whether the given lines start a GFM table, a header row followed by a delimiter row with the same number of cells.
+ * Other lines with a pipe followed by a dash line, like a setext heading `a | b` underlined with `---`, are no table.
+ * @param {string} line The possible header row.
+ * @param {string | undefined} nextLine The possible delimiter row.
+ * @returns {boolean} Whether a table starts at the given line.
+ */
+export const isMarkdownTableStart = (line: string, nextLine: string | undefined): boolean => {
+    if (!line.includes('|') || nextLine === undefined || !nextLine.includes('-') || !markdownTableDelimiterRowRegex.test(nextLine)) {
+        return false;
+    }
+    return splitMarkdownTableRow(line).length === splitMarkdownTableRow(nextLine).length;
+};
+
+/**
+ * Parse the lines of a GFM pipe table.
+ * @param {string[]} lines The table lines including the delimiter row.
+ * @returns {ITableData} The parsed table data.
+ */
+export const parseMarkdownTable = (lines: string[]): ITableData => {
+    const rows = lines.filter((_, index) => index !== 1).map(splitMarkdownTableRow);
+    return { rows: normalizeTableRows(rows) };
+};
+
+/**
+ * Convert the given table data into a GFM pipe table.
+ * @param {ITableData} table The table data to convert.
+ * @returns {string} The markdown representation of the table.
+ */
+export const tableToMarkdown = (table: ITableData): string => {
+    const rows = normalizeTableRows(table.rows);
+    const toMarkdownRow = (row: string[]) => `| ${row.map((cell) => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ')).join(' | ')} |`;
+    const delimiterRow = `| ${rows[0].map(() => '---').join(' | ')} |`;
+    return [toMarkdownRow(rows[0]), delimiterRow, ...rows.slice(1).map(toMarkdownRow)].join('\n');
+};
+
+/**
+ * Escape special html characters of a plain text value.
+ * @param {string} text The text to escape.
+ * @returns {string} The escaped text.
+ */
+export const escapeHtml = (text: string): string => {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+/**
+ * Convert the given table data into html table markup.
+ * @param {ITableData} table The table data to convert.
+ * @returns {string} The html representation of the table.
+ */
+export const tableToHtml = (table: ITableData): string => {
+    const rows = normalizeTableRows(table.rows);
+    const toHtmlRow = (row: string[], cellTag: string) => `<tr>${row.map((cell) => `<${cellTag}>${escapeHtml(cell)}</${cellTag}>`).join('')}</tr>`;
+    const head = `<thead>${toHtmlRow(rows[0], 'th')}</thead>`;
+    const body =
+        rows.length > 1
+            ? `<tbody>${rows
+                  .slice(1)
+                  .map((row) => toHtmlRow(row, 'td'))
+                  .join('')}</tbody>`
+            : '';
+    return `<table>${head}${body}</table>`;
+};
+
+/**
+ * Read the table data from a html table element.
+ * @param {HTMLTableElement} tableElement The html table element to read.
+ * @returns {ITableData} The table data.
+ */
+export const tableFromHtmlElement = (tableElement: HTMLTableElement): ITableData => {
+    const rows = Array.from(tableElement.rows).map((row) => Array.from(row.cells).map((cell) => (cell.textContent ?? '').trim()));
+    return { rows: normalizeTableRows(rows.length ? rows : [['']]) };
+};
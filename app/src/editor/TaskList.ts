@@ -0,0 +1,122 @@
+import { BlockMap, ContentBlock, ContentState, RawDraftContentBlock, RawDraftContentState } from 'draft-js';
+
+/** The block type used for checkable list items. */
+export const checkableListItemBlockType = 'checkable-list-item';
+
+/** The block data stored for a checkable list item. */
+export interface ICheckableListItemData {
+    /** Whether the item is checked. */
+    checked?: boolean;
+}
+
+/** Matches the GFM task list marker at the start of an imported list item, e.g. `[ ] ` or `[x] `. */
+const markdownTaskMarkerRegex = /^\[([ xX])\]\s+/;
+
+/** Matches the list items the html export marks as task list items, including further classes and attributes, e.g. of the alignment. */
+const htmlTaskListItemRegex = /<li class="task-list-item([^"]*)" data-checked="(true|false)"([^>]*)>/g;
+
+/**
+ * Remove the given number of characters from the start of the ranges of a raw block.
+ * Ranges that only cover removed characters are dropped.
+ * @template T
+ * @param {T[]} ranges The inline style or entity ranges of the block.
+ * @param {number} length The number of removed characters.
+ * @returns {T[]} The shifted ranges.
+ */
+const shiftRawRanges = <T extends { offset: number; length: number }>(ranges: T[], length: number): T[] => {
+    return ranges
+        .map((range) => {
+            const start = Math.max(range.offset, length);
+            return { ...range, offset: start - length, length: range.offset + range.length - start };
+        })
+        .filter((range) => range.length > 0);
+};
+
+/**
+ * Convert imported markdown list items that start with a GFM task list marker into checkable list items.
+ * @param {RawDraftContentState} rawContent The raw content created from markdown.
+ * @returns {RawDraftContentState} The raw content with checkable list items.
+ */
+export const markdownTaskListItemsToCheckable = (rawContent: RawDraftContentState): RawDraftContentState => {
+    const blocks = rawContent.blocks.map((block): RawDraftContentBlock => {
+        const match = block.type === 'unordered-list-item' ? block.text.match(markdownTaskMarkerRegex) : null;
+        if (!match) {
+            return block;
+        }
+        const markerLength = match[0].length;
+        return {
+            ...block,
+            type: checkableListItemBlockType,
+            text: block.text.slice(markerLength),
+            inlineStyleRanges: shiftRawRanges(block.inlineStyleRanges, markerLength),
+            entityRanges: shiftRawRanges(block.entityRanges, markerLength),
+            data: { ...block.data, checked: match[1] !== ' ' },
+        };
+    });
+    return { ...rawContent, blocks };
+};
+
+/**
+ * Convert an exported checkable list item into an unordered list item that starts with a GFM task list marker.
+ * @param {RawDraftContentBlock} block The raw checkable list item.
+ * @returns {RawDraftContentBlock} The unordered list item.
+ */
+export const checkableListItemToMarkdownBlock = (block: RawDraftContentBlock): RawDraftContentBlock => {
+    const marker = (block.data as ICheckableListItemData | undefined)?.checked ? '[x] ' : '[ ] ';
+    return {
+        ...block,
+        type: 'unordered-list-item',
+        text: marker + block.text,
+        inlineStyleRanges: block.inlineStyleRanges.map((range) => ({ ...range, offset: range.offset + marker.length })),
+        entityRanges: block.entityRanges.map((range) => ({ ...range, offset: range.offset + marker.length })),
+    };
+};
+
+/**
+ * Get the data of an imported html list item that contains a checkbox.
+ * @param {Element} element The imported html element.
+ * @returns {ICheckableListItemData | undefined} The checkable list item data or undefined if the element is no task list item.
+ */
+export const getHtmlTaskListItemData = (element: Element): ICheckableListItemData | undefined => {
+    if (element.tagName !== 'LI') {
+        return undefined;
+    }
+    const checkbox = Array.from(element.children).find((child) => child.tagName === 'INPUT' && child.getAttribute('type')?.toLowerCase() === 'checkbox');
+    return checkbox ? { checked: checkbox.hasAttribute('checked') } : undefined;
+};
+
+/**
+ * Convert all checkable list items into unordered list items with a boolean checked state, so that the html export renders them as list.
+ * @param {ContentState} contentState The content state to export.
+ * @returns {ContentState} The content state without checkable list items.
+ */
+export const checkableListItemsToHtmlListItems = (contentState: ContentState): ContentState => {
+    const blockMap = contentState.getBlockMap().map((block) => {
+        if (!block || block.getType() !== checkableListItemBlockType) {
+            return block;
+        }
+        return block.merge({ type: 'unordered-list-item', data: block.getData().set('checked', !!block.getData().get('checked')) }) as ContentBlock;
+    }) as BlockMap;
+    return contentState.merge({ blockMap }) as ContentState;
+};
+
+/**
+ * Get the html attributes that mark an exported list item as task list item.
+ * @param {ContentBlock} block The exported block.
+ * @returns {{ [name: string]: string } | undefined} The attributes or undefined if the block is no task list item.
+ */
+export const getHtmlTaskListItemAttributes = (block: ContentBlock): { [name: string]: string } | undefined => {
+    const checked = block.getType() === 'unordered-list-item' ? block.getData().get('checked') : undefined;
+    return typeof checked === 'boolean' ? { class: 'task-list-item', 'data-checked': String(checked) } : undefined;
+};
+
+/**
+ * Add a disabled checkbox to all list items of an exported html string that are marked as task list items.
+ * @param {string} htmlString The exported html string.
+ * @returns {string} The html string with checkboxes.
+ */
+export const addHtmlTaskListCheckboxes = (htmlString: string): string => {
+    return htmlString.replace(htmlTaskListItemRegex, (_, classNames: string, checked: string, attributes: string) => {
+        return `<li class="task-list-item${classNames}"${attributes}><input type="checkbox" disabled${checked === 'true' ? ' checked' : ''} /> `;
+    });
+};
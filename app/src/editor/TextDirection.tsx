@@ -0,0 +1,30 @@
+import React, { FunctionComponent, ReactNode, useMemo } from 'react';
+import { PartialTheme, ThemeProvider } from '@fluentui/react';
+
+/** The direction of the text and the layout, left to right or right to left. */
+export type TextDirection = 'ltr' | 'rtl';
+
+interface ITextDirectionProviderProps {
+    /** The direction to apply. The direction of the surrounding theme is kept if not set. */
+    dir?: TextDirection;
+    /** The class name of the wrapping element. */
+    className?: string;
+    /** The content to display in the direction. */
+    children?: ReactNode;
+}
+
+/**
+ * Apply a text direction to its content. The fluent ui theme is switched as well, so that the fluent ui components are mirrored.
+ * @param {ITextDirectionProviderProps} props The text direction provider properties.
+ * @returns {FunctionComponent} The text direction provider component.
+ */
+export const TextDirectionProvider: FunctionComponent<ITextDirectionProviderProps> = (props) => {
+    /** The theme overriding the direction of the surrounding theme, only recreated when the direction changes. */
+    const directionTheme = useMemo<PartialTheme>(() => (props.dir ? { rtl: props.dir === 'rtl' } : {}), [props.dir]);
+
+    return (
+        <ThemeProvider theme={directionTheme} applyTo="none" className={props.className}>
+            {props.children}
+        </ThemeProvider>
+    );
+};
@@ -1,13 +1,118 @@
 import 'draft-js/dist/Draft.css';
 
-import React, { FunctionComponent, MutableRefObject, useCallback, useEffect, useRef, useState, KeyboardEvent, FormEvent } from 'react';
-import { Editor, EditorState, RichUtils, DraftEditorCommand, DraftHandleValue, ContentBlock } from 'draft-js';
+import React, { CSSProperties, FunctionComponent, MutableRefObject, useCallback, useEffect, useMemo, useRef, useState, KeyboardEvent, FormEvent } from 'react';
+import {
+    Editor,
+    EditorState,
+    Modifier,
+    RichUtils,
+    DraftEditorCommand,
+    DraftHandleValue,
+    ContentBlock,
+    SelectionState,
+    DraftDecorator,
+    DraftInlineStyle,
+    CompositeDecorator,
+    getVisibleSelectionRect,
+    EditorProps,
+} from 'draft-js';
 import styled from 'styled-components';
-import { DefaultButton, Dialog, DialogFooter, Dropdown, IconButton, IDropdownOption, IPalette, PrimaryButton, TextField, TooltipHost, useTheme } from '@fluentui/react';
-import { exportEditorStateToHtmlString, exportEditorStateToMarkdownString, getEditorStateFromHtml, getEditorStateFromMarkdown } from './Parser';
-import { addLink, applyBlockStyle, applyInlineStyle, removeLink } from './Helper';
+import {
+    Announced,
+    DefaultButton,
+    Dialog,
+    DialogFooter,
+    Dropdown,
+    FocusZone,
+    FocusZoneDirection,
+    hiddenContentStyle,
+    IconButton,
+    IFocusZone,
+    IDropdownOption,
+    IPalette,
+    mergeStyles,
+    ITextField,
+    Point,
+    PrimaryButton,
+    TextField,
+    TooltipHost,
+    useTheme,
+} from '@fluentui/react';
+import { getContentFormat, importContentWithFallback } from './ContentFormat';
+import {
+    addLink,
+    applyBlockStyle,
+    applyInlineStyle,
+    applyPrefixedInlineStyle,
+    clearFormatting,
+    getLinkAtSelection,
+    getSelectedText,
+    insertCodeBlockNewline,
+    insertImage,
+    insertMention,
+    insertTable,
+    removeBlock,
+    removeLink,
+    removeLinkRange,
+    setCodeBlockLanguage,
+    toggleBlockAlignment,
+    toggleCheckableListItem,
+    toggleInlineStyle,
+    updateAtomicBlockData,
+    updateLink,
+} from './Helper';
 import { useId } from '@fluentui/react-hooks';
-import { customBlockQuoteStyle } from './CustomStyles';
+import { customBlockQuoteStyle, customInlineStyleMap } from './CustomStyles';
+import { getAlignmentClassName, getBlockAlignment, TextAlignment } from './Alignment';
+import { blockRenderMap } from './BlockRenderMap';
+import { DraftTable, IDraftTableBlockProps } from './DraftTable';
+import { ITableData, tableEntityType } from './Table';
+import { DraftImage } from './DraftImage';
+import { DraftCheckableListItem, IDraftCheckableListItemBlockProps } from './DraftCheckableListItem';
+import { checkableListItemBlockType } from './TaskList';
+import { getMentionQuery, IMentionItem, IMentionQuery, isSameMentionQuery } from './Mention';
+import { MentionSuggestions } from './MentionSuggestions';
+import { IImageData, imageEntityType, isImageFile, readFileAsDataUrl } from './Image';
+import { getSanitizeOptions, isSafeImageUrl, isSafeUrl } from './Sanitizer';
+import { DraftLinkContext, IDraftLinkContext } from './DraftLink';
+import { defaultLinkData, ILinkData, ILinkRange } from './Link';
+import { autoLinkInsertedContent, autoLinkWordBefore } from './AutoLink';
+import { getPastedContent, insertPastedContent } from './Paste';
+import { applyMarkdownShortcut, IMarkdownShortcutOptions } from './MarkdownShortcuts';
+import { BuiltInToolbarItemId, defaultToolbar, IToolbarGroup, ToolbarItem } from './Toolbar';
+import { applyPluginExportHooks, applyPluginImportHooks, getPluginDecorators, getPluginStyleMap, handleWithPlugins, IBlockRenderer, IEditorPlugin } from './Plugin';
+import { createDecorator } from './Parser';
+import { codeLanguages } from './CodeHighlight';
+import {
+    createSearchDecorator,
+    createSearchRegExp,
+    defaultSearchOptions,
+    findSearchMatches,
+    getSearchMatchIndexAfterSelection,
+    ISearchMatch,
+    ISearchOptions,
+    replaceAllSearchMatches,
+    replaceSearchMatch,
+    selectSearchMatch,
+} from './Search';
+import { DraftSearchMatchContext, IDraftSearchMatchContext } from './DraftSearchMatch';
+import { SearchPanel } from './SearchPanel';
+import { getContentStatistics, getRemainingLength, getSelectionStatistics } from './Statistics';
+import { LengthLimitState, StatusBar } from './StatusBar';
+import { defaultTextEditorStrings, formatString, ITextEditorStrings, TextEditorStringsContext } from './Strings';
+import { TextDirection, TextDirectionProvider } from './TextDirection';
+import { BlockTypeMenu } from './BlockTypeMenu';
+import { ColorPickerMenu } from './ColorPickerMenu';
+import {
+    fontSizeStylePrefix,
+    getPrefixedStyleValue,
+    getTextStylePalette,
+    getTextStyleProperties,
+    highlightColorStylePrefix,
+    isDarkPalette,
+    textColorStylePrefix,
+} from './TextStyles';
+import { defaultKeyBindings, EditorCommand, formatKeyCombo, getKeyBindingCommand, getKeyCombos, IKeyBindingMap, isApplePlatform, unboundCommand } from './KeyBindings';
 
 interface IThemed {
     palette: IPalette;
@@ -22,7 +127,7 @@ const EditorContainer = styled.div<IThemed>`
     overflow: hidden;
 `;
 
-const ToolbarContainer = styled.div<IThemed>`
+const ToolbarContainer = styled(FocusZone)<IThemed>`
     display: flex;
     margin: 5px;
     padding: 5px 0;
@@ -32,7 +137,7 @@ const ToolbarContainer = styled.div<IThemed>`
 `;
 
 const ControlSection = styled.div`
-    margin-right: 25px;
+    margin-inline-end: 25px;
     display: flex;
     min-width: max-content;
 `;
@@ -46,12 +151,141 @@ const EditorTextfieldWrapper = styled.div`
 export interface ITextEditor {
     /** The initial content as string. */
     initialContent?: string;
-    /** The content type to import / export. */
-    contentType: 'markdown' | 'html';
+    /**
+     * The controlled content as string. Takes precedence over the initial content.
+     * The editor re-imports the value whenever it differs from the content it emitted last.
+     */
+    value?: string;
+    /** The identifier of the registered content format to import / export, e.g. 'markdown' or 'html'. */
+    contentType: string;
     /** Callback to execute when the value changes. */
     handleContentUpdate: (newContent: string) => void;
+    /** Upload a pasted or dropped image file and resolve its url. Images are embedded as data urls if not set. */
+    uploadImage?: (file: File) => Promise<string>;
+    /** Whether urls and e-mail addresses are turned into links when typed or pasted. Defaults to true. */
+    autoLink?: boolean;
+    /** The markdown shortcuts to enable or disable while typing, e.g. `# ` for a header. All shortcuts are enabled by default. */
+    markdownShortcuts?: IMarkdownShortcutOptions;
+    /** The groups and items of the toolbar in display order. Defaults to all built in items. */
+    toolbar?: IToolbarGroup[];
+    /** Plugins that extend the editor, applied in order. The plugin objects should be stable across renders. */
+    plugins?: IEditorPlugin[];
+    /** Search the items that can be mentioned after typing a trigger. Mentions are disabled if not set. */
+    onSearchMentions?: (query: string, trigger: string) => Promise<IMentionItem[]>;
+    /** The characters that start a mention. Defaults to `@`. */
+    mentionTriggers?: string[];
+    /** Whether the status bar with word and character counts is displayed below the editor. */
+    showStatusBar?: boolean;
+    /** The maximum number of characters, not counting the breaks between blocks. Typing and pasting beyond it is blocked. */
+    maxLength?: number;
+    /** Whether the content is only displayed. The toolbar is hidden and editing is disabled, links can still be opened. */
+    readOnly?: boolean;
+    /** The texts of the editor that replace the built in english texts, e.g. to translate them. */
+    strings?: Partial<ITextEditorStrings>;
+    /** The map from key combos to the commands they execute. Replaces the default key bindings, which can be extended by spreading `defaultKeyBindings`. */
+    keyBindings?: IKeyBindingMap;
+    /** The direction of the text, toolbar and dialogs. The direction of the surrounding theme is kept and the text direction is detected per block if not set. */
+    dir?: TextDirection;
+}
+
+/** A button of the toolbar. */
+interface IToolbarButton {
+    /** The name of the fluent ui icon to display. */
+    iconName: string;
+    /** The accessible label of the button, also displayed in its tooltip. */
+    label: string;
+    /** The keyboard shortcut displayed in the tooltip below the label. */
+    shortcut?: JSX.Element;
+    /** Whether the button is displayed as active. Buttons with an active state are toggle buttons. */
+    isActive?: boolean;
+    /** Callback to execute when the button is pressed. */
+    onMouseDown: () => void;
 }
 
+/** The layout of the element applying the text direction, so that the editor fills it like it fills its parent. */
+const editorDirectionStyle = mergeStyles({
+    display: 'flex',
+    flex: 1,
+    maxWidth: 'inherit',
+    overflow: 'hidden',
+});
+
+/** The draft js text directionality of each text direction. */
+const draftTextDirectionalities: { [dir in TextDirection]: EditorProps['textDirectionality'] } = {
+    ltr: 'LTR',
+    rtl: 'RTL',
+};
+
+/** Visually hidden text that is only read by screen readers. */
+const hiddenTextStyle = mergeStyles(hiddenContentStyle);
+
+/** The key commands of the inline styles draft js toggles, with the style and the name announced when toggling it. */
+const inlineStyleKeyCommands: { [command: string]: { style: string; label: keyof ITextEditorStrings } } = {
+    bold: { style: 'BOLD', label: 'bold' },
+    italic: { style: 'ITALIC', label: 'italic' },
+    underline: { style: 'UNDERLINE', label: 'underline' },
+    strikethrough: { style: 'STRIKETHROUGH', label: 'strikethrough' },
+    code: { style: 'CODE', label: 'inlineCode' },
+    superscript: { style: 'SUPERSCRIPT', label: 'superscript' },
+    subscript: { style: 'SUBSCRIPT', label: 'subscript' },
+    highlight: { style: 'HIGHLIGHT', label: 'highlight' },
+};
+
+/** The key commands the editor handles: the ones of draft js, the bindable editor commands and the ones of the visible mention suggestions. */
+type KeyCommand = DraftEditorCommand | EditorCommand | 'mention-next' | 'mention-previous' | 'mention-close' | typeof unboundCommand;
+
+/** The key commands that toggle a block type, with the block type. */
+const blockTypeKeyCommands: { [command: string]: string } = {
+    paragraph: 'unstyled',
+    'header-one': 'header-one',
+    'header-two': 'header-two',
+    'header-three': 'header-three',
+    'header-four': 'header-four',
+    'header-five': 'header-five',
+    'header-six': 'header-six',
+    'unordered-list': 'unordered-list-item',
+    'ordered-list': 'ordered-list-item',
+    'check-list': checkableListItemBlockType,
+    blockquote: 'blockquote',
+    'code-block': 'code-block',
+};
+
+/** The plugins used if no plugins are passed. */
+const noPlugins: IEditorPlugin[] = [];
+
+/** The share of the maximum length from which on the status bar warns that the limit is near. */
+const maxLengthWarningRatio = 0.9;
+
+/** The default characters that start a mention. */
+const defaultMentionTriggers = ['@'];
+
+/**
+ * Import a string of the given content type into a new editor state.
+ * @param {string | undefined} content The content to import.
+ * @param {string} contentType The identifier of the content format of the string.
+ * @param {IEditorPlugin[]} plugins The plugins whose import hooks to apply.
+ * @returns {EditorState} The imported editor state.
+ */
+const importContent = (content: string | undefined, contentType: string, plugins: IEditorPlugin[]): EditorState => {
+    const contentFormat = getContentFormat(contentType);
+    if (content && contentFormat) {
+        return importContentWithFallback(contentFormat, applyPluginImportHooks(plugins, content, contentType));
+    }
+    return EditorState.createEmpty();
+};
+
+/**
+ * Export the given editor state as string of the given content type.
+ * @param {EditorState} editorState The editor state to export.
+ * @param {string} contentType The identifier of the content format to export.
+ * @param {IEditorPlugin[]} plugins The plugins whose export hooks to apply.
+ * @returns {string} The exported content.
+ */
+const exportContent = (editorState: EditorState, contentType: string, plugins: IEditorPlugin[]): string => {
+    const contentFormat = getContentFormat(contentType);
+    return contentFormat ? applyPluginExportHooks(plugins, contentFormat.export(editorState), contentType) : '';
+};
+
 /**
  * Custom WYSIWYG editor based on draft-js.
  * @param {ITextEditor} props The properties of the WYSIWYG editor.
@@ -60,20 +294,23 @@ export interface ITextEditor {
 export const TextEditor: FunctionComponent<ITextEditor> = (props) => {
     /** Access to the theme. */
     const theme = useTheme();
+    /** The texts of the editor, the built in english texts overridden by the passed ones. */
+    const strings = useMemo(() => ({ ...defaultTextEditorStrings, ...props.strings }), [props.strings]);
+    /** Whether the editor is displayed right to left, either by its own direction or by the surrounding theme. */
+    const isRtl = props.dir ? props.dir === 'rtl' : !!theme.rtl;
     /** The maximum allowed indent level for lists. */
     const maxIntend = 4;
 
+    /** The plugins that extend the editor. */
+    const plugins = props.plugins ?? noPlugins;
+    /** The map from key combos to the commands they execute. */
+    const keyBindings = props.keyBindings ?? defaultKeyBindings;
+
     /** React state of the current draft-js editor state. */
-    const [editorState, setEditorState] = useState(
-        props.initialContent && props.contentType === 'markdown'
-            ? getEditorStateFromMarkdown(props.initialContent)
-            : props.initialContent && props.contentType === 'html'
-            ? getEditorStateFromHtml(props.initialContent)
-            : EditorState.createEmpty(),
-    );
+    const [editorState, setEditorState] = useState(() => importContent(props.value ?? props.initialContent, props.contentType, plugins));
 
-    /** The currently selected heading type. */
-    const [selectedHeading, setSelectedHeading] = useState<string | number>('paragraph');
+    /** The block type of the block at the selection. */
+    const [selectedBlockType, setSelectedBlockType] = useState<string>('unstyled');
     /** Whether the bold style is currently active or not. */
     const [isBoldActive, setIsBoldActive] = useState<boolean>(false);
     /** Whether the italic style is currently active or not. */
@@ -82,6 +319,8 @@ export const TextEditor: FunctionComponent<ITextEditor> = (props) => {
     const [isUnderlineActive, setIsUnderlineActive] = useState<boolean>(false);
     /** Whether the ordered list style is currently active or not. */
     const [isOrderedListActive, setIsOrderedListActive] = useState<boolean>(false);
+    /** Whether the checkable list block style is currently active or not. */
+    const [isCheckListActive, setIsCheckListActive] = useState<boolean>(false);
     /** Whether the unordered list style is currently active or not. */
     const [isUnorderedListActive, setIsUnorderedListActive] = useState<boolean>(false);
     /** Whether the strike through style is currently active or not. */
@@ -90,32 +329,152 @@ export const TextEditor: FunctionComponent<ITextEditor> = (props) => {
     const [isBlockquoteActive, setIsBlockquoteActive] = useState<boolean>(false);
     /** Whether the code block style is currently active or not. */
     const [isCodeBlockActive, setIsCodeBlockActive] = useState<boolean>(false);
+    /** Whether the inline code style is currently active or not. */
+    const [isInlineCodeActive, setIsInlineCodeActive] = useState<boolean>(false);
+    /** Whether the superscript style is currently active or not. */
+    const [isSuperscriptActive, setIsSuperscriptActive] = useState<boolean>(false);
+    /** Whether the subscript style is currently active or not. */
+    const [isSubscriptActive, setIsSubscriptActive] = useState<boolean>(false);
+    /** Whether the highlight style is currently active or not. */
+    const [isHighlightActive, setIsHighlightActive] = useState<boolean>(false);
+    /** The language of the current code block. */
+    const [selectedCodeLanguage, setSelectedCodeLanguage] = useState<string>('');
+    /** The alignment of the block at the selection, undefined if it follows the text direction. */
+    const [selectedAlignment, setSelectedAlignment] = useState<TextAlignment | undefined>(undefined);
+    /** The font size in pixels of the text at the selection, empty for the default size. */
+    const [selectedFontSize, setSelectedFontSize] = useState<string>('');
+    /** The text color of the text at the selection. */
+    const [selectedTextColor, setSelectedTextColor] = useState<string | undefined>(undefined);
+    /** The highlight color of the text at the selection. */
+    const [selectedHighlightColor, setSelectedHighlightColor] = useState<string | undefined>(undefined);
 
     /** The current value of the url input. */
     const [urlValue, setUrlValue] = useState<string>('');
     /** Whether the url input is visible or not. */
     const [isUrlInputVisible, setIsUrlInputVisible] = useState<boolean>(false);
+    /** The validation error of the url input. */
+    const [urlErrorMessage, setUrlErrorMessage] = useState<string>();
+    /** The current value of the link text input. */
+    const [linkTextValue, setLinkTextValue] = useState<string>('');
+    /** The current value of the link title input. */
+    const [linkTitleValue, setLinkTitleValue] = useState<string>('');
+    /** The currently selected link target. */
+    const [linkTargetValue, setLinkTargetValue] = useState<string>(defaultLinkData.target ?? '_blank');
+    /** The current value of the link rel input. */
+    const [linkRelValue, setLinkRelValue] = useState<string>(defaultLinkData.rel ?? '');
+    /** The position of the link that is edited in the link dialog, undefined when inserting a new link. */
+    const [editedLinkRange, setEditedLinkRange] = useState<ILinkRange>();
+    /** The current value of the image url input. */
+    const [imageSrcValue, setImageSrcValue] = useState<string>('');
+    /** The current value of the image alternative text input. */
+    const [imageAltValue, setImageAltValue] = useState<string>('');
+    /** Whether the image input is visible or not. */
+    const [isImageInputVisible, setIsImageInputVisible] = useState<boolean>(false);
+    /** The validation error of the image url input. */
+    const [imageSrcErrorMessage, setImageSrcErrorMessage] = useState<string>();
+    /** Whether an input inside an atomic block (e.g. a table cell) is being edited, which requires the editor to be read only. */
+    const [isAtomicBlockEditing, setIsAtomicBlockEditing] = useState<boolean>(false);
+    /** React state of the mention the user is typing. */
+    const [mentionQuery, setMentionQuery] = useState<IMentionQuery>();
+    /** React state of the suggested items for the typed mention. */
+    const [mentionSuggestions, setMentionSuggestions] = useState<IMentionItem[]>([]);
+    /** React state of the index of the highlighted mention suggestion. */
+    const [selectedMentionIndex, setSelectedMentionIndex] = useState<number>(0);
+    /** React state of the caret position the mention suggestions are displayed at. */
+    const [mentionTarget, setMentionTarget] = useState<Point>();
+    /** React state whether the find and replace panel is visible. */
+    const [isSearchPanelVisible, setIsSearchPanelVisible] = useState<boolean>(false);
+    /** React state whether the replace field of the find and replace panel is visible. */
+    const [isReplaceVisible, setIsReplaceVisible] = useState<boolean>(false);
+    /** React state of the search query. */
+    const [searchQuery, setSearchQuery] = useState<string>('');
+    /** React state of the replacement text. */
+    const [replacementValue, setReplacementValue] = useState<string>('');
+    /** React state of the search options. */
+    const [searchOptions, setSearchOptions] = useState<ISearchOptions>(defaultSearchOptions);
+    /** React state of the index of the current search match. */
+    const [currentMatchIndex, setCurrentMatchIndex] = useState<number>(-1);
 
-    /** The unique identifier of the tooltip element for the bold styling button. */
-    const boldTooltipId = useId();
-    /** The unique identifier of the tooltip element for the italic styling button. */
-    const italicTooltipId = useId();
-    /** The unique identifier of the tooltip element for the underline styling button. */
-    const underlineTooltipId = useId();
-    /** The unique identifier of the tooltip element for the undo button. */
-    const undoTooltipId = useId();
-    /** The unique identifier of the tooltip element for the redo button. */
-    const redoTooltipId = useId();
+    /** The unique identifier prefix of the tooltip elements of the toolbar buttons. */
+    const toolbarTooltipId = useId('toolbar');
+    /** The unique identifier of the hint how to reach the toolbar. */
+    const toolbarHintId = useId('toolbar-hint');
+    /** The key combo that moves the focus into the toolbar. */
+    const focusToolbarKeyCombo = getKeyCombos(keyBindings, 'focus-toolbar')[0];
+    /** The hint how to reach the toolbar from the editor, if the toolbar is displayed and can be reached by a key combo. */
+    const toolbarHint =
+        !props.readOnly && focusToolbarKeyCombo ? formatString(strings.toolbarHint, { shortcut: formatKeyCombo(focusToolbarKeyCombo, strings, isApplePlatform()) }) : undefined;
+    /** The message announced to screen readers, e.g. when a format is toggled. */
+    const [announcement, setAnnouncement] = useState<string>();
+    /** Reference to the focus zone of the toolbar, used to move the focus into the toolbar. */
+    const toolbarRef = useRef<IFocusZone>(null);
 
     /** Reference to the draft-js editor component. */
     const editorRef = useRef<Editor>();
+    /** Reference to the latest editor state, used by asynchronous operations like image uploads. */
+    const editorStateRef = useRef<EditorState>(editorState);
+    /** The content that was passed to the update callback last, used to tell external value changes from echoes. */
+    const lastEmittedContentRef = useRef<string | undefined>(props.value);
+    /** The content type the editor state was last imported or converted with. */
+    const contentTypeRef = useRef(props.contentType);
+    /** The decorators of the plugins and the decorator combining them with the default decorators. */
+    const decoratorRef = useRef<{ decorators: DraftDecorator[]; searchDecorator?: DraftDecorator; decorator: CompositeDecorator }>();
+    /** Reference to the editor text field wrapper, used as fallback position of the mention suggestions. */
+    const editorWrapperRef = useRef<HTMLDivElement>(null);
+    /** Counter of the mention searches, used to ignore the results of outdated searches. */
+    const mentionSearchRef = useRef(0);
+
+    /** Reference to the search field of the find and replace panel. */
+    const searchFieldRef = useRef<ITextField>(null);
+
+    /** The regular expression of the search, only set while the find and replace panel is visible. */
+    const searchRegExp = useMemo(() => (isSearchPanelVisible ? createSearchRegExp(searchQuery, searchOptions) : undefined), [isSearchPanelVisible, searchQuery, searchOptions]);
+    /** The decorator highlighting the search matches. */
+    const searchDecorator = useMemo(() => (searchRegExp ? createSearchDecorator(searchRegExp) : undefined), [searchRegExp]);
+    /** The current content, used to find the search matches only when it changes. */
+    const currentContent = editorState.getCurrentContent();
+    /** All matches of the search in document order. */
+    const searchMatches = useMemo(() => findSearchMatches(currentContent, searchRegExp), [currentContent, searchRegExp]);
+    /** The current search match. */
+    const currentMatch: ISearchMatch | undefined = searchMatches[currentMatchIndex];
+
+    /** The decorators of all plugins. */
+    const pluginDecorators = getPluginDecorators(plugins);
+    if (
+        !decoratorRef.current ||
+        decoratorRef.current.searchDecorator !== searchDecorator ||
+        decoratorRef.current.decorators.length !== pluginDecorators.length ||
+        decoratorRef.current.decorators.some((pluginDecorator, index) => pluginDecorator !== pluginDecorators[index])
+    ) {
+        decoratorRef.current = { decorators: pluginDecorators, searchDecorator, decorator: createDecorator(pluginDecorators, searchDecorator ? [searchDecorator] : []) };
+    }
+    /** The decorator of the editor, only recreated when the plugin decorators or the search change. */
+    const decorator = decoratorRef.current.decorator;
+    /** The custom inline styles of the editor merged with the inline style maps of all plugins. */
+    const customStyleMap = useMemo(() => ({ ...customInlineStyleMap, ...getPluginStyleMap(plugins) }), [plugins]);
+    /** The colors and font sizes the text style items of the toolbar offer. */
+    const textStylePalette = getTextStylePalette();
+    /** Whether the palette of the theme is dark, so that the text styles are displayed in their dark colors. */
+    const isDarkTheme = isDarkPalette(theme.palette);
 
-    /** Options for the heading dropdown */
-    const headingOptions: IDropdownOption[] = [
-        { key: 'paragraph', text: 'Paragraph' },
-        { key: 'header-one', text: 'Headline 1' },
-        { key: 'header-two', text: 'Headline 2' },
-        { key: 'header-three', text: 'Headline 3' },
+    /** Options for the code language dropdown, including an unsupported language of the current code block. */
+    const codeLanguageOptions: IDropdownOption[] = [
+        { key: '', text: strings.plainText },
+        ...codeLanguages.map((language) => ({ key: language.id, text: language.displayName })),
+        ...(selectedCodeLanguage && !codeLanguages.some((language) => language.id === selectedCodeLanguage) ? [{ key: selectedCodeLanguage, text: selectedCodeLanguage }] : []),
+    ];
+
+    /** Options for the font size dropdown. */
+    const fontSizeOptions: IDropdownOption[] = [
+        { key: '', text: strings.defaultFontSize },
+        ...textStylePalette.fontSizes.map((fontSize) => ({ key: String(fontSize), text: String(fontSize) })),
+        ...(selectedFontSize && !textStylePalette.fontSizes.includes(Number(selectedFontSize)) ? [{ key: selectedFontSize, text: selectedFontSize }] : []),
+    ];
+
+    /** Options for the link target dropdown. */
+    const linkTargetOptions: IDropdownOption[] = [
+        { key: '_blank', text: strings.linkTargetNewWindow },
+        { key: '_self', text: strings.linkTargetSameWindow },
     ];
 
     /**
@@ -125,62 +484,665 @@ export const TextEditor: FunctionComponent<ITextEditor> = (props) => {
         setTimeout(() => editorRef.current?.focus(), 0);
     };
 
+    /**
+     * Announce to screen readers that a format was turned on or off.
+     * @param {string} format The name of the format.
+     * @param {boolean} isActive Whether the format is active now.
+     */
+    const announceFormat = useCallback(
+        (format: string, isActive: boolean) => {
+            setAnnouncement(formatString(isActive ? strings.formatOn : strings.formatOff, { format }));
+        },
+        [strings],
+    );
+
+    /** Keep the reference to the latest editor state up to date. */
+    useEffect(() => {
+        editorStateRef.current = editorState;
+    }, [editorState]);
+
+    /** The properties the content synchronization depends on. */
+    const { value, contentType, handleContentUpdate } = props;
+
+    /** Re-import the controlled value when it was changed from outside, e.g. by a reload or reset. */
+    useEffect(() => {
+        if (value === undefined || value === lastEmittedContentRef.current) {
+            return;
+        }
+        contentTypeRef.current = contentType;
+        lastEmittedContentRef.current = value;
+        const importedContent = importContent(value, contentType, plugins).getCurrentContent();
+        // Push the content so that the external change can be undone like any other change.
+        setEditorState(EditorState.push(editorStateRef.current, importedContent, 'insert-fragment'));
+    }, [value, contentType, plugins]);
+
+    /** Convert the live document when the content type changes, so that it only holds what the new format can represent. */
+    useEffect(() => {
+        if (contentType === contentTypeRef.current) {
+            return;
+        }
+        contentTypeRef.current = contentType;
+        const convertedContent = importContent(exportContent(editorStateRef.current, contentType, plugins), contentType, plugins).getCurrentContent();
+        setEditorState(EditorState.push(editorStateRef.current, convertedContent, 'insert-fragment'));
+    }, [contentType, plugins]);
+
+    /** The word and character counts of the content. */
+    const contentStatistics = useMemo(() => getContentStatistics(currentContent), [currentContent]);
+    /** The state of the character count compared to the maximum length. */
+    const lengthLimitState: LengthLimitState =
+        props.maxLength === undefined
+            ? 'none'
+            : contentStatistics.characters >= props.maxLength
+              ? 'reached'
+              : contentStatistics.characters >= props.maxLength * maxLengthWarningRatio
+                ? 'near'
+                : 'none';
+
+    /** The content exported to the current content type. */
+    const exportedContent = useMemo(() => exportContent(editorState, contentTypeRef.current, plugins), [editorState, plugins]);
+
     /** Handle editor state updates by calling the property callback. */
     useEffect(() => {
-        let newContent = '';
-        if (props.contentType === 'markdown') {
-            newContent = exportEditorStateToMarkdownString(editorState);
-        } else if (props.contentType === 'html') {
-            newContent = exportEditorStateToHtmlString(editorState);
+        if (exportedContent === lastEmittedContentRef.current) {
+            return;
+        }
+        lastEmittedContentRef.current = exportedContent;
+        handleContentUpdate(exportedContent);
+    }, [exportedContent, handleContentUpdate]);
+
+    /** Apply the decorator to editor states that were created without it, e.g. by an import. */
+    useEffect(() => {
+        if (editorState.getDecorator() !== decorator) {
+            setEditorState(EditorState.set(editorState, { decorator }));
+        }
+    }, [editorState, decorator]);
+
+    /** The properties the mention suggestions depend on. */
+    const { onSearchMentions, mentionTriggers = defaultMentionTriggers } = props;
+
+    /** Track the mention the user is typing. */
+    useEffect(() => {
+        const newMentionQuery = onSearchMentions ? getMentionQuery(editorState, mentionTriggers) : undefined;
+        setMentionQuery((currentMentionQuery) => (isSameMentionQuery(currentMentionQuery, newMentionQuery) ? currentMentionQuery : newMentionQuery));
+    }, [editorState, onSearchMentions, mentionTriggers]);
+
+    /** Search the suggestions for the typed mention. */
+    useEffect(() => {
+        const searchId = ++mentionSearchRef.current;
+        setSelectedMentionIndex(0);
+        if (!mentionQuery || !onSearchMentions) {
+            setMentionSuggestions([]);
+            return;
         }
-        props.handleContentUpdate(newContent);
-    }, [editorState, props]);
+        const selectionRect = getVisibleSelectionRect(window);
+        setMentionTarget(selectionRect ? { left: selectionRect.left, top: selectionRect.bottom } : undefined);
+        onSearchMentions(mentionQuery.query, mentionQuery.trigger)
+            .then((items) => {
+                if (searchId === mentionSearchRef.current) {
+                    setMentionSuggestions(items);
+                }
+            })
+            .catch(() => {
+                if (searchId === mentionSearchRef.current) {
+                    setMentionSuggestions([]);
+                }
+            });
+    }, [mentionQuery, onSearchMentions]);
+
+    /** Whether the mention suggestions are displayed. */
+    const isMentionSuggestionsVisible = !!mentionQuery && mentionSuggestions.length > 0;
+
+    /**
+     * Close the mention suggestions until the typed mention changes.
+     */
+    const closeMentionSuggestions = useCallback(() => {
+        mentionSearchRef.current++;
+        setMentionSuggestions([]);
+    }, []);
+
+    /**
+     * Update the editor state after an insertion that is not typed or pasted, like a mention, a link text or an image.
+     * Insertions that make the content exceed the maximum length are blocked, like typed and pasted text.
+     * @param {EditorState} newState The editor state with the inserted content.
+     */
+    const setEditorStateWithinMaxLength = useCallback(
+        (newState: EditorState) => {
+            const length = getContentStatistics(newState.getCurrentContent()).characters;
+            if (props.maxLength !== undefined && length > props.maxLength && length > getContentStatistics(editorStateRef.current.getCurrentContent()).characters) {
+                return;
+            }
+            setEditorState(newState);
+        },
+        [props.maxLength],
+    );
+
+    /**
+     * Insert the mention of a suggested item in place of the typed mention.
+     * @param {IMentionItem} item The selected item.
+     */
+    const selectMention = useCallback(
+        (item: IMentionItem) => {
+            if (mentionQuery) {
+                insertMention(editorState, setEditorStateWithinMaxLength, mentionQuery, item);
+                closeMentionSuggestions();
+            }
+        },
+        [editorState, mentionQuery, closeMentionSuggestions, setEditorStateWithinMaxLength],
+    );
+
+    /** Go to the first match after the cursor whenever the matches change, e.g. after typing a query or replacing a match. */
+    useEffect(() => {
+        setCurrentMatchIndex(getSearchMatchIndexAfterSelection(editorStateRef.current.getCurrentContent(), searchMatches, editorStateRef.current.getSelection()));
+    }, [searchMatches]);
+
+    /**
+     * Open the find and replace panel and focus its search field. A selection within one block is used as query.
+     * @param {boolean} withReplace Whether the replace field is displayed.
+     */
+    const openSearchPanel = useCallback((withReplace: boolean) => {
+        const selection = editorStateRef.current.getSelection();
+        if (!selection.isCollapsed() && selection.getStartKey() === selection.getEndKey()) {
+            setSearchQuery(getSelectedText(editorStateRef.current));
+        }
+        setIsSearchPanelVisible(true);
+        setIsReplaceVisible(withReplace);
+        setTimeout(() => {
+            searchFieldRef.current?.focus();
+            searchFieldRef.current?.select();
+        }, 0);
+    }, []);
+
+    /**
+     * Close the find and replace panel and return the focus to the editor, keeping the current match selected.
+     */
+    const closeSearchPanel = () => {
+        setIsSearchPanelVisible(false);
+        setFocusIntoEditor();
+    };
+
+    /**
+     * Select a search match by its index, wrapping around at both ends.
+     * @param {number} index The index of the match.
+     */
+    const goToSearchMatch = (index: number) => {
+        if (!searchMatches.length) {
+            return;
+        }
+        const wrappedIndex = (index + searchMatches.length) % searchMatches.length;
+        setCurrentMatchIndex(wrappedIndex);
+        setEditorState(selectSearchMatch(editorState, searchMatches[wrappedIndex]));
+    };
+
+    /**
+     * Check whether the current search match is selected in the editor.
+     * @returns {boolean} Whether the current match is selected.
+     */
+    const isCurrentMatchSelected = (): boolean => {
+        const selection = editorState.getSelection();
+        return (
+            !!currentMatch &&
+            selection.getStartKey() === currentMatch.blockKey &&
+            selection.getEndKey() === currentMatch.blockKey &&
+            selection.getStartOffset() === currentMatch.start &&
+            selection.getEndOffset() === currentMatch.end
+        );
+    };
+
+    /**
+     * Select the next search match. The current match is selected first, if it is not selected yet.
+     */
+    const onNextSearchMatch = () => {
+        goToSearchMatch(isCurrentMatchSelected() ? currentMatchIndex + 1 : currentMatchIndex);
+    };
+
+    /**
+     * Select the previous search match.
+     */
+    const onPreviousSearchMatch = () => {
+        goToSearchMatch(currentMatchIndex - 1);
+    };
+
+    /**
+     * Replace the current search match.
+     */
+    const onReplaceSearchMatch = () => {
+        if (currentMatch && searchRegExp) {
+            replaceSearchMatch(editorState, setEditorState, currentMatch, replacementValue, searchRegExp);
+        }
+    };
+
+    /**
+     * Replace all search matches as a single undo step.
+     */
+    const onReplaceAllSearchMatches = () => {
+        if (searchRegExp) {
+            replaceAllSearchMatches(editorState, setEditorState, searchMatches, replacementValue, searchRegExp);
+        }
+    };
+
+    /** The current match for the highlighted search matches. */
+    const searchMatchContext: IDraftSearchMatchContext = useMemo(() => ({ currentMatch }), [currentMatch]);
+
+    /**
+     * Open the link dialog, prefilled with the given link or the link at the current selection.
+     * Without an existing link, the dialog inserts a new link for the selected text.
+     * @param {ILinkRange} linkRange The optional position of the link to edit.
+     */
+    const openLinkDialog = useCallback((linkRange?: ILinkRange) => {
+        const currentEditorState = editorStateRef.current;
+        const existingLinkRange = linkRange ?? getLinkAtSelection(currentEditorState);
+        if (existingLinkRange) {
+            const contentState = currentEditorState.getCurrentContent();
+            const link = contentState.getEntity(existingLinkRange.entityKey).getData() as ILinkData;
+            setUrlValue(link.url ?? '');
+            setLinkTextValue(contentState.getBlockForKey(existingLinkRange.blockKey).getText().slice(existingLinkRange.start, existingLinkRange.end));
+            setLinkTitleValue(link.title ?? '');
+            setLinkTargetValue(link.target ?? '_self');
+            setLinkRelValue(link.rel ?? '');
+        } else {
+            setUrlValue('');
+            setLinkTextValue(getSelectedText(currentEditorState));
+            setLinkTitleValue('');
+            setLinkTargetValue(defaultLinkData.target ?? '_blank');
+            setLinkRelValue(defaultLinkData.rel ?? '');
+        }
+        setEditedLinkRange(existingLinkRange);
+        setUrlErrorMessage(undefined);
+        setIsUrlInputVisible(true);
+    }, []);
 
     /**
      * Handle keyboard shortcuts in the draft-js editor.
-     * @param {DraftEditorCommand} command The command to execute.
+     * @param {KeyCommand} command The command to execute.
      * @param {EditorState} editorState The editor state to modify.
      * @returns {DraftHandleValue} The draft handle value.
      */
-    const handleKeyCommand = useCallback((command: DraftEditorCommand, editorState: EditorState): DraftHandleValue => {
-        if (command === 'backspace') {
+    const handleKeyCommand = useCallback(
+        (command: KeyCommand, editorState: EditorState): DraftHandleValue => {
+            if (handleWithPlugins(plugins, (plugin) => plugin.handleKeyCommand?.(command, editorState, setEditorState)) === 'handled') {
+                return 'handled';
+            }
+            if (isMentionSuggestionsVisible && command === 'mention-next') {
+                setSelectedMentionIndex((index) => (index + 1) % mentionSuggestions.length);
+                return 'handled';
+            }
+            if (isMentionSuggestionsVisible && command === 'mention-previous') {
+                setSelectedMentionIndex((index) => (index - 1 + mentionSuggestions.length) % mentionSuggestions.length);
+                return 'handled';
+            }
+            if (command === 'mention-close') {
+                closeMentionSuggestions();
+                return 'handled';
+            }
+            if (command === 'open-find' || command === 'open-replace') {
+                openSearchPanel(command === 'open-replace');
+                return 'handled';
+            }
+            if (command === 'focus-toolbar') {
+                return toolbarRef.current?.focus() ? 'handled' : 'not-handled';
+            }
+            if (command === 'link') {
+                openLinkDialog();
+                return 'handled';
+            }
+            if (command === unboundCommand) {
+                return 'handled';
+            }
+            const blockType = blockTypeKeyCommands[command];
+            if (blockType) {
+                applyBlockStyle(editorState, setEditorState, blockType);
+                return 'handled';
+            }
+            const inlineStyleCommand = inlineStyleKeyCommands[command];
+            if (inlineStyleCommand) {
+                const newState = toggleInlineStyle(editorState, inlineStyleCommand.style);
+                setEditorState(newState);
+                announceFormat(strings[inlineStyleCommand.label], newState.getCurrentInlineStyle().has(inlineStyleCommand.style));
+                return 'handled';
+            }
+            if (command === 'clear-formatting') {
+                clearFormatting(editorState, setEditorState);
+                return 'handled';
+            }
+            if (command === 'backspace') {
+                return 'not-handled';
+            }
+            // The commands of the editor are handled above, so the remaining ones are draft js commands.
+            const newState = RichUtils.handleKeyCommand(editorState, command as DraftEditorCommand);
+            if (newState) {
+                setEditorState(newState);
+                return 'handled';
+            }
             return 'not-handled';
+        },
+        [plugins, isMentionSuggestionsVisible, mentionSuggestions.length, closeMentionSuggestions, openSearchPanel, openLinkDialog, announceFormat, strings],
+    );
+
+    /**
+     * Map key events to commands with the key binding map, letting the plugins map them first.
+     * @param {KeyboardEvent} event The occurred keyboard event.
+     * @returns {string | null} The command or null if the key has no binding.
+     */
+    const keyBindingFn = (event: KeyboardEvent): string | null => {
+        for (const plugin of plugins) {
+            const command = plugin.keyBindingFn?.(event);
+            if (command) {
+                return command;
+            }
         }
-        const newState = RichUtils.handleKeyCommand(editorState, command);
-        if (newState) {
-            setEditorState(newState);
-            return 'handled';
+        if (isMentionSuggestionsVisible) {
+            if (event.key === 'ArrowDown') {
+                return 'mention-next';
+            }
+            if (event.key === 'ArrowUp') {
+                return 'mention-previous';
+            }
+            if (event.key === 'Escape') {
+                return 'mention-close';
+            }
         }
-        return 'not-handled';
-    }, []);
+        return getKeyBindingCommand(event, keyBindings);
+    };
+
+    /** Whether urls and e-mail addresses are turned into links automatically. */
+    const isAutoLinkEnabled = props.autoLink ?? true;
 
     /**
      * Handle what happens when the user presses the return key.
+     * If the line ends with an url, the line break is inserted first and the url is linked as separate undo step.
      * @param {KeyboardEvent} event The occurred keyboard event.
      * @returns {DraftHandleValue} The draft handle value.
      */
     const handleReturn = useCallback(
         (event: KeyboardEvent): DraftHandleValue => {
+            if (handleWithPlugins(plugins, (plugin) => plugin.handleReturn?.(event, editorState, setEditorState)) === 'handled') {
+                return 'handled';
+            }
+            if (isMentionSuggestionsVisible) {
+                selectMention(mentionSuggestions[selectedMentionIndex] ?? mentionSuggestions[0]);
+                return 'handled';
+            }
+            const selection = editorState.getSelection();
+            const currentBlock = editorState.getCurrentContent().getBlockForKey(selection.getStartKey());
+            if (currentBlock.getType() === 'code-block') {
+                insertCodeBlockNewline(editorState, setEditorState);
+                return 'handled';
+            }
+            if (currentBlock.getType() === checkableListItemBlockType && !currentBlock.getLength() && !event.shiftKey) {
+                // Leave the checklist on return in an empty item.
+                applyBlockStyle(editorState, setEditorState, checkableListItemBlockType);
+                return 'handled';
+            }
+            const linkedState = isAutoLinkEnabled && selection.isCollapsed() ? autoLinkWordBefore(editorState, selection.getStartKey(), selection.getStartOffset()) : undefined;
             if (event.shiftKey) {
-                setEditorState(RichUtils.insertSoftNewline(editorState));
+                const newState = RichUtils.insertSoftNewline(editorState);
+                setEditorState(linkedState ? autoLinkWordBefore(newState, selection.getStartKey(), selection.getStartOffset()) ?? newState : newState);
+                return 'handled';
+            }
+            if (linkedState) {
+                const newState = EditorState.push(editorState, Modifier.splitBlock(editorState.getCurrentContent(), selection), 'split-block');
+                setEditorState(autoLinkWordBefore(newState, selection.getStartKey(), selection.getStartOffset()) ?? newState);
                 return 'handled';
             }
             return 'not-handled';
         },
-        [editorState],
+        [editorState, isAutoLinkEnabled, plugins, isMentionSuggestionsVisible, mentionSuggestions, selectedMentionIndex, selectMention],
     );
 
+    /**
+     * Check whether inserting a number of characters in place of the current selection would exceed the maximum length.
+     * @param {EditorState} editorState The current editor state.
+     * @param {number} length The number of inserted characters.
+     * @returns {boolean} Whether the insertion exceeds the maximum length.
+     */
+    const exceedsMaxLength = (editorState: EditorState, length: number): boolean => {
+        return props.maxLength !== undefined && length > getRemainingLength(editorState, props.maxLength);
+    };
+
+    /**
+     * Handle typed characters. Markdown syntax like `# ` or `**text**` is converted into the matching formatting.
+     * Typing whitespace after an url inserts the whitespace first and links the url as separate undo step.
+     * Characters beyond the maximum length are blocked.
+     * @param {string} chars The typed characters.
+     * @param {EditorState} editorState The current editor state.
+     * @returns {DraftHandleValue} The draft handle value.
+     */
+    const handleBeforeInput = (chars: string, editorState: EditorState): DraftHandleValue => {
+        if (exceedsMaxLength(editorState, chars.length)) {
+            return 'handled';
+        }
+        if (handleWithPlugins(plugins, (plugin) => plugin.handleBeforeInput?.(chars, editorState, setEditorState)) === 'handled') {
+            return 'handled';
+        }
+        const convertedState = applyMarkdownShortcut(editorState, chars, props.markdownShortcuts);
+        if (convertedState) {
+            setEditorState(convertedState);
+            return 'handled';
+        }
+        const selection = editorState.getSelection();
+        if (!isAutoLinkEnabled || !selection.isCollapsed() || !/^\s$/.test(chars)) {
+            return 'not-handled';
+        }
+        if (!autoLinkWordBefore(editorState, selection.getStartKey(), selection.getStartOffset())) {
+            return 'not-handled';
+        }
+        const contentState = Modifier.insertText(editorState.getCurrentContent(), selection, chars, editorState.getCurrentInlineStyle());
+        const newState = EditorState.push(editorState, contentState, 'insert-characters');
+        setEditorState(autoLinkWordBefore(newState, selection.getStartKey(), selection.getStartOffset()) ?? newState);
+        return 'handled';
+    };
+
+    /**
+     * Handle pasted text. Markdown and formatted html are converted into the blocks and styles the editor supports and inserted at the cursor.
+     * Pastes from a draft-js editor and unformatted plain text are left to the draft-js default handling.
+     * Pastes that would exceed the maximum length are blocked.
+     * @param {string} text The pasted plain text.
+     * @param {string | undefined} html The pasted html.
+     * @param {EditorState} editorState The current editor state.
+     * @returns {DraftHandleValue} The draft handle value.
+     */
+    const handlePastedText = (text: string, html: string | undefined, editorState: EditorState): DraftHandleValue => {
+        // Line breaks of pasted text become block breaks, which do not count towards the maximum length.
+        const pastedContent = html?.includes('data-editor=') ? undefined : getPastedContent(text, html);
+        if (!pastedContent) {
+            return exceedsMaxLength(editorState, text.replace(/\r?\n/g, '').length) ? 'handled' : 'not-handled';
+        }
+        const newState = insertPastedContent(editorState, pastedContent);
+        if (props.maxLength !== undefined && getContentStatistics(newState.getCurrentContent()).characters > props.maxLength) {
+            return 'handled';
+        }
+        setEditorState(isAutoLinkEnabled ? autoLinkInsertedContent(newState) ?? newState : newState);
+        return 'handled';
+    };
+
+    /**
+     * Update the editor state on changes of the draft-js editor, linking urls of pasted content if enabled.
+     * Styles toggled from the toolbar for the next typed text are kept when the focus returns into the editor.
+     * @param {EditorState} newState The changed editor state.
+     */
+    const onEditorChange = (newState: EditorState) => {
+        const inlineStyleOverride = editorState.getInlineStyleOverride();
+        if (inlineStyleOverride && !newState.getInlineStyleOverride() && newState.getSelection().equals(editorState.getSelection().set('hasFocus', true))) {
+            setEditorState(EditorState.setInlineStyleOverride(newState, inlineStyleOverride));
+            return;
+        }
+        if (isAutoLinkEnabled && newState.getLastChangeType() === 'insert-fragment' && newState.getCurrentContent() !== editorState.getCurrentContent()) {
+            setEditorState(autoLinkInsertedContent(newState) ?? newState);
+            return;
+        }
+        setEditorState(newState);
+    };
+
     /**
      * Function to apply custom block styles.
      * @param {ContentBlock} contentBlock The content block to format.
      * @returns {string} The CSS classes to apply.
      */
     const blockStyleFn = (contentBlock: ContentBlock): string => {
+        const pluginClassNames = plugins.map((plugin) => plugin.blockStyleFn?.(contentBlock)).filter((className) => !!className);
+        const alignmentClassNames = [getAlignmentClassName(contentBlock)].filter((className) => !!className);
         const type = contentBlock.getType();
         if (type === 'blockquote') {
-            return customBlockQuoteStyle;
+            return [customBlockQuoteStyle, ...alignmentClassNames, ...pluginClassNames].join(' ');
+        }
+        return [...alignmentClassNames, ...pluginClassNames].join(' ');
+    };
+
+    /**
+     * Function to apply the text styles, which are not part of the style map since their values are dynamic.
+     * @param {DraftInlineStyle} inlineStyle The inline styles of a text range.
+     * @returns {CSSProperties} The css properties of the text styles.
+     */
+    const customStyleFn = (inlineStyle: DraftInlineStyle): CSSProperties => {
+        return getTextStyleProperties(inlineStyle, isDarkTheme);
+    };
+
+    /**
+     * Function to render atomic blocks and checkable list items with custom components.
+     * @param {ContentBlock} contentBlock The content block to render.
+     * Plugins are asked first.
+     * @returns {IBlockRenderer | null} The custom block renderer or null to use the default rendering.
+     */
+    const blockRendererFn = (contentBlock: ContentBlock): IBlockRenderer | null => {
+        for (const plugin of plugins) {
+            const blockRenderer = plugin.blockRendererFn?.(contentBlock, editorState, setEditorState);
+            if (blockRenderer) {
+                return blockRenderer;
+            }
+        }
+        if (contentBlock.getType() === checkableListItemBlockType) {
+            if (props.readOnly) {
+                return { component: DraftCheckableListItem, editable: false };
+            }
+            const blockProps: IDraftCheckableListItemBlockProps = {
+                onToggle: (blockKey: string) => toggleCheckableListItem(editorState, setEditorState, blockKey),
+            };
+            return { component: DraftCheckableListItem, editable: true, props: blockProps };
+        }
+        if (contentBlock.getType() !== 'atomic') {
+            return null;
+        }
+        const entityKey = contentBlock.getEntityAt(0);
+        if (!entityKey) {
+            return null;
+        }
+        const entityType = editorState.getCurrentContent().getEntity(entityKey).getType();
+        if (entityType === tableEntityType) {
+            if (props.readOnly) {
+                return { component: DraftTable, editable: false };
+            }
+            const blockProps: IDraftTableBlockProps = {
+                onChange: (blockKey: string, data: ITableData) => updateAtomicBlockData(editorState, setEditorState, blockKey, data),
+                onRemove: (blockKey: string) => {
+                    setIsAtomicBlockEditing(false);
+                    removeBlock(editorState, setEditorState, blockKey);
+                    setFocusIntoEditor();
+                },
+                onEditingChange: setIsAtomicBlockEditing,
+            };
+            return { component: DraftTable, editable: false, props: blockProps };
+        }
+        if (entityType === imageEntityType) {
+            return { component: DraftImage, editable: false };
+        }
+        return null;
+    };
+
+    /**
+     * Close the link dialog and reset its inputs.
+     */
+    const closeLinkDialog = () => {
+        setIsUrlInputVisible(false);
+        setEditedLinkRange(undefined);
+        setUrlValue('');
+        setLinkTextValue('');
+        setLinkTitleValue('');
+        setUrlErrorMessage(undefined);
+    };
+
+    /**
+     * Add the link from the link dialog to the current selection, or update the edited link, and close the dialog.
+     * Urls with a scheme that is not allowed are rejected with an inline error.
+     */
+    const onAddLink = () => {
+        if (!isSafeUrl(urlValue)) {
+            setUrlErrorMessage(formatString(strings.invalidUrl, { schemes: getSanitizeOptions().allowedUrlSchemes.join(', ') }));
+            return;
+        }
+        const link: ILinkData = { url: urlValue, target: linkTargetValue };
+        if (linkTitleValue) {
+            link.title = linkTitleValue;
+        }
+        if (linkRelValue) {
+            link.rel = linkRelValue;
+        }
+        if (editedLinkRange) {
+            updateLink(editorState, setEditorStateWithinMaxLength, editedLinkRange, link, linkTextValue);
+        } else {
+            addLink(editorState, setEditorStateWithinMaxLength, link, linkTextValue);
+        }
+        closeLinkDialog();
+        setFocusIntoEditor();
+    };
+
+    /** The link actions offered by the hover card of links inside the editor. */
+    const linkContext: IDraftLinkContext = props.readOnly
+        ? {}
+        : {
+              isEditable: true,
+              onEditLink: openLinkDialog,
+              onRemoveLink: (linkRange: ILinkRange) => {
+                  removeLinkRange(editorStateRef.current, setEditorState, linkRange);
+              },
+          };
+
+    /**
+     * Insert the image from the image dialog and close it.
+     * Image urls with a scheme that is not allowed are rejected with an inline error.
+     */
+    const onAddImage = () => {
+        if (!isSafeImageUrl(imageSrcValue)) {
+            setImageSrcErrorMessage(strings.invalidImageUrl);
+            return;
         }
-        return '';
+        insertImage(editorState, setEditorStateWithinMaxLength, { src: imageSrcValue, alt: imageAltValue });
+        setIsImageInputVisible(false);
+        setImageSrcValue('');
+        setImageAltValue('');
+        setImageSrcErrorMessage(undefined);
+        setFocusIntoEditor();
+    };
+
+    /**
+     * Upload the image files of a paste or drop and insert them as image blocks. Files whose upload or reading fails are skipped.
+     * @param {Blob[]} files The pasted or dropped files.
+     * @param {SelectionState} selection The selection to insert the images at, defaults to the current selection.
+     * @returns {DraftHandleValue} The draft handle value.
+     */
+    const insertImageFiles = (files: Blob[], selection?: SelectionState): DraftHandleValue => {
+        const imageFiles = files.filter(isImageFile);
+        if (!imageFiles.length) {
+            return 'not-handled';
+        }
+        const { uploadImage } = props;
+        // Errors thrown synchronously by the upload callback reject the upload as well.
+        const uploads = imageFiles.map((file) => Promise.resolve().then(() => (uploadImage ? uploadImage(file as File) : readFileAsDataUrl(file))));
+        Promise.allSettled(uploads).then((results) => {
+            const images: IImageData[] = [];
+            results.forEach((result, index) => {
+                // Failed uploads and urls the sanitizer does not allow are skipped, like images added with the dialog.
+                if (result.status === 'fulfilled' && isSafeImageUrl(result.value)) {
+                    images.push({ src: result.value, alt: (imageFiles[index] as File).name ?? '' });
+                }
+            });
+            if (!images.length) {
+                return;
+            }
+            let newState = selection ? EditorState.forceSelection(editorStateRef.current, selection) : editorStateRef.current;
+            images.forEach((image) => insertImage(newState, (state) => (newState = state), image));
+            setEditorStateWithinMaxLength(newState);
+        });
+        return 'handled';
     };
 
     /**
@@ -189,9 +1151,18 @@ export const TextEditor: FunctionComponent<ITextEditor> = (props) => {
      */
     const onTab = useCallback(
         (event: KeyboardEvent) => {
+            if (handleWithPlugins(plugins, (plugin) => plugin.onTab?.(event, editorState, setEditorState)) === 'handled') {
+                event.preventDefault();
+                return;
+            }
+            if (isMentionSuggestionsVisible) {
+                event.preventDefault();
+                selectMention(mentionSuggestions[selectedMentionIndex] ?? mentionSuggestions[0]);
+                return;
+            }
             setEditorState(RichUtils.onTab(event, editorState, maxIntend));
         },
-        [editorState],
+        [editorState, plugins, isMentionSuggestionsVisible, mentionSuggestions, selectedMentionIndex, selectMention],
     );
 
     /**
@@ -227,38 +1198,424 @@ export const TextEditor: FunctionComponent<ITextEditor> = (props) => {
     };
 
     /**
-     * On change handler for the heading dropdown.
-     * Applies the selected heading type to the current editor block.
+     * Mouse down handler to apply CODE style.
+     */
+    const onInlineCodeMouseDown = () => {
+        applyInlineStyle(editorState, setEditorState, 'CODE');
+        setFocusIntoEditor();
+    };
+
+    /**
+     * Mouse down handler to apply SUPERSCRIPT style.
+     */
+    const onSuperscriptMouseDown = () => {
+        applyInlineStyle(editorState, setEditorState, 'SUPERSCRIPT');
+        setFocusIntoEditor();
+    };
+
+    /**
+     * Mouse down handler to apply SUBSCRIPT style.
+     */
+    const onSubscriptMouseDown = () => {
+        applyInlineStyle(editorState, setEditorState, 'SUBSCRIPT');
+        setFocusIntoEditor();
+    };
+
+    /**
+     * Mouse down handler to apply HIGHLIGHT style.
+     */
+    const onHighlightMouseDown = () => {
+        applyInlineStyle(editorState, setEditorState, 'HIGHLIGHT');
+        setFocusIntoEditor();
+    };
+
+    /**
+     * Mouse down handler to remove the inline styles and block types of the selection.
+     */
+    const onClearFormattingMouseDown = () => {
+        clearFormatting(editorState, setEditorState);
+        setFocusIntoEditor();
+    };
+
+    /**
+     * On change handler for the code language dropdown.
+     * Applies the selected language to the current code block.
      * @param {FormEvent<HTMLDivElement>} _ The occurred form event.
      * @param {IDropdownOption | undefined} option The selected dropdown option.
      */
-    const onHeadingChange = (_: FormEvent<HTMLDivElement>, option?: IDropdownOption | undefined) => {
+    const onCodeLanguageChange = (_: FormEvent<HTMLDivElement>, option?: IDropdownOption | undefined) => {
         if (!option) {
             return;
         }
-        let keyToSet = option.key;
-        switch (option.key) {
-            case 'paragraph':
-                applyBlockStyle(editorState, setEditorState, 'paragraph');
-                setFocusIntoEditor();
-                break;
-            case 'header-one':
-                applyBlockStyle(editorState, setEditorState, 'header-one');
-                setFocusIntoEditor();
-                break;
-            case 'header-two':
-                applyBlockStyle(editorState, setEditorState, 'header-two');
-                setFocusIntoEditor();
-                break;
-            case 'header-three':
-                applyBlockStyle(editorState, setEditorState, 'header-three');
+        setCodeBlockLanguage(editorState, setEditorState, option.key as string);
+        setFocusIntoEditor();
+    };
+
+    /**
+     * On change handler for the font size dropdown.
+     * Applies the selected font size to the selected text or the text typed next.
+     * @param {FormEvent<HTMLDivElement>} _ The occurred form event.
+     * @param {IDropdownOption | undefined} option The selected dropdown option.
+     */
+    const onFontSizeChange = (_: FormEvent<HTMLDivElement>, option?: IDropdownOption | undefined) => {
+        if (!option) {
+            return;
+        }
+        applyPrefixedInlineStyle(editorState, setEditorState, fontSizeStylePrefix, option.key ? (option.key as string) : undefined);
+        setFocusIntoEditor();
+    };
+
+    /**
+     * Apply a picked color of a color menu to the selected text or the text typed next.
+     * @param {string} prefix The prefix of the inline style of the color.
+     * @param {string | undefined} color The picked hex color or undefined to remove the color.
+     */
+    const onColorChange = (prefix: string, color: string | undefined) => {
+        applyPrefixedInlineStyle(editorState, setEditorState, prefix, color);
+        setFocusIntoEditor();
+    };
+
+    /**
+     * On change handler for the block type menu.
+     * Applies the chosen block type to the selected blocks.
+     * @param {string} blockType The chosen block type.
+     */
+    const onBlockTypeChange = (blockType: string) => {
+        applyBlockStyle(editorState, setEditorState, blockType);
+        setSelectedBlockType(blockType);
+        setFocusIntoEditor();
+    };
+
+    /**
+     * Render the key combos bound to a command on windows / linux and on mac, as displayed in the toolbar tooltips.
+     * @param {EditorCommand} command The command.
+     * @returns {React.ReactElement | undefined} The rendered key combos or undefined if no key combo is bound to the command.
+     */
+    const renderShortcut = (command: EditorCommand): React.ReactElement | undefined => {
+        const keyCombos = getKeyCombos(keyBindings, command);
+        if (!keyCombos.length) {
+            return undefined;
+        }
+        return (
+            <>
+                <div>{keyCombos.map((keyCombo) => formatKeyCombo(keyCombo, strings, false)).join(', ')}</div>
+                <div>{keyCombos.map((keyCombo) => formatKeyCombo(keyCombo, strings, true)).join(', ')}</div>
+            </>
+        );
+    };
+
+    /** The built in toolbar buttons by identifier. */
+    const builtInToolbarButtons: { [id in Exclude<BuiltInToolbarItemId, 'heading' | 'codeLanguage' | 'fontSize' | 'textColor' | 'highlightColor'>]: IToolbarButton } = {
+        bold: {
+            iconName: 'Bold',
+            label: strings.bold,
+            shortcut: renderShortcut('bold'),
+            isActive: isBoldActive,
+            onMouseDown: onBoldMouseDown,
+        },
+        italic: {
+            iconName: 'Italic',
+            label: strings.italic,
+            shortcut: renderShortcut('italic'),
+            isActive: isItalicActive,
+            onMouseDown: onItalicMouseDown,
+        },
+        underline: {
+            iconName: 'Underline',
+            label: strings.underline,
+            shortcut: renderShortcut('underline'),
+            isActive: isUnderlineActive,
+            onMouseDown: onUnderlineMouseDown,
+        },
+        strikethrough: {
+            iconName: 'Strikethrough',
+            label: strings.strikethrough,
+            shortcut: renderShortcut('strikethrough'),
+            isActive: isStrikeThroughActive,
+            onMouseDown: onStrikeThroughMouseDown,
+        },
+        inlineCode: {
+            iconName: 'CodeEdit',
+            label: strings.inlineCode,
+            shortcut: renderShortcut('code'),
+            isActive: isInlineCodeActive,
+            onMouseDown: onInlineCodeMouseDown,
+        },
+        superscript: {
+            iconName: 'Superscript',
+            label: strings.superscript,
+            shortcut: renderShortcut('superscript'),
+            isActive: isSuperscriptActive,
+            onMouseDown: onSuperscriptMouseDown,
+        },
+        subscript: {
+            iconName: 'Subscript',
+            label: strings.subscript,
+            shortcut: renderShortcut('subscript'),
+            isActive: isSubscriptActive,
+            onMouseDown: onSubscriptMouseDown,
+        },
+        highlight: {
+            iconName: 'FabricTextHighlight',
+            label: strings.highlight,
+            shortcut: renderShortcut('highlight'),
+            isActive: isHighlightActive,
+            onMouseDown: onHighlightMouseDown,
+        },
+        clearFormatting: {
+            iconName: 'ClearFormatting',
+            label: strings.clearFormatting,
+            shortcut: renderShortcut('clear-formatting'),
+            onMouseDown: onClearFormattingMouseDown,
+        },
+        unorderedList: {
+            iconName: 'BulletedList',
+            label: strings.unorderedList,
+            shortcut: renderShortcut('unordered-list'),
+            isActive: isUnorderedListActive,
+            onMouseDown: () => applyBlockStyle(editorState, setEditorState, 'unordered-list-item'),
+        },
+        orderedList: {
+            iconName: 'NumberedList',
+            label: strings.orderedList,
+            shortcut: renderShortcut('ordered-list'),
+            isActive: isOrderedListActive,
+            onMouseDown: () => applyBlockStyle(editorState, setEditorState, 'ordered-list-item'),
+        },
+        checkList: {
+            iconName: 'CheckList',
+            label: strings.checkList,
+            shortcut: renderShortcut('check-list'),
+            isActive: isCheckListActive,
+            onMouseDown: () => applyBlockStyle(editorState, setEditorState, checkableListItemBlockType),
+        },
+        outdent: {
+            iconName: 'DecreaseIndentLegacy',
+            label: strings.outdent,
+            onMouseDown: () => {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const e: any = { preventDefault: () => null, shiftKey: true };
+                setEditorState(RichUtils.onTab(e, editorState, maxIntend));
+            },
+        },
+        indent: {
+            iconName: 'IncreaseIndentLegacy',
+            label: strings.indent,
+            onMouseDown: () => {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                const e: any = { preventDefault: () => null };
+                setEditorState(RichUtils.onTab(e, editorState, maxIntend));
+            },
+        },
+        alignLeft: {
+            iconName: 'AlignLeft',
+            label: strings.alignLeft,
+            isActive: selectedAlignment === 'left',
+            onMouseDown: () => toggleBlockAlignment(editorState, setEditorState, 'left'),
+        },
+        alignCenter: {
+            iconName: 'AlignCenter',
+            label: strings.alignCenter,
+            isActive: selectedAlignment === 'center',
+            onMouseDown: () => toggleBlockAlignment(editorState, setEditorState, 'center'),
+        },
+        alignRight: {
+            iconName: 'AlignRight',
+            label: strings.alignRight,
+            isActive: selectedAlignment === 'right',
+            onMouseDown: () => toggleBlockAlignment(editorState, setEditorState, 'right'),
+        },
+        alignJustify: {
+            iconName: 'AlignJustify',
+            label: strings.alignJustify,
+            isActive: selectedAlignment === 'justify',
+            onMouseDown: () => toggleBlockAlignment(editorState, setEditorState, 'justify'),
+        },
+        blockquote: {
+            iconName: 'RightDoubleQuote',
+            label: strings.blockquote,
+            shortcut: renderShortcut('blockquote'),
+            isActive: isBlockquoteActive,
+            onMouseDown: () => applyBlockStyle(editorState, setEditorState, 'blockquote'),
+        },
+        codeBlock: {
+            iconName: 'Code',
+            label: strings.codeBlock,
+            shortcut: renderShortcut('code-block'),
+            isActive: isCodeBlockActive,
+            onMouseDown: () => applyBlockStyle(editorState, setEditorState, 'code-block'),
+        },
+        table: { iconName: 'Table', label: strings.insertTable, onMouseDown: () => insertTable(editorState, setEditorState) },
+        link: { iconName: 'AddLink', label: strings.insertLink, shortcut: renderShortcut('link'), onMouseDown: () => openLinkDialog() },
+        removeLink: { iconName: 'RemoveLink', label: strings.removeLink, onMouseDown: () => removeLink(editorState, setEditorState) },
+        image: { iconName: 'Photo2', label: strings.insertImage, onMouseDown: () => setIsImageInputVisible(true) },
+        undo: {
+            iconName: 'Undo',
+            label: strings.undo,
+            shortcut: renderShortcut('undo'),
+            onMouseDown: () => setEditorState(EditorState.undo(editorState)),
+        },
+        redo: {
+            iconName: 'Redo',
+            label: strings.redo,
+            shortcut: renderShortcut('redo'),
+            onMouseDown: () => setEditorState(EditorState.redo(editorState)),
+        },
+    };
+
+    /**
+     * Press a button of the toolbar and announce the new state of toggle buttons.
+     * @param {IToolbarButton} button The pressed button.
+     */
+    const pressToolbarButton = (button: IToolbarButton) => {
+        button.onMouseDown();
+        if (button.isActive !== undefined) {
+            announceFormat(button.label, !button.isActive);
+        }
+    };
+
+    /**
+     * Render a button of the toolbar.
+     * @param {string} key The unique key of the button.
+     * @param {IToolbarButton} button The button to render.
+     * @returns {React.ReactElement} The rendered button.
+     */
+    const renderToolbarButton = (key: string, button: IToolbarButton): React.ReactElement => {
+        const tooltipId = `${toolbarTooltipId}-${key}`;
+        return (
+            <TooltipHost
+                key={key}
+                id={tooltipId}
+                content={
+                    <>
+                        <div>{button.label}</div>
+                        {button.shortcut}
+                    </>
+                }
+            >
+                <IconButton
+                    ariaLabel={button.label}
+                    aria-describedby={button.shortcut ? tooltipId : undefined}
+                    toggle={button.isActive !== undefined}
+                    checked={button.isActive}
+                    styles={{
+                        root: {
+                            backgroundColor: 'unset',
+                            marginRight: '5px',
+                            color: theme.palette.black,
+                        },
+                        rootChecked: {
+                            backgroundColor: theme.palette.neutralQuaternary,
+                        },
+                    }}
+                    iconProps={{ iconName: button.iconName }}
+                    onMouseDown={(event) => {
+                        // Keep the focus and selection in the editor.
+                        event.preventDefault();
+                        pressToolbarButton(button);
+                    }}
+                    onClick={(event) => {
+                        // Clicks without a pointer come from the keyboard, pointer clicks are already handled on mouse down.
+                        if (!event.detail) {
+                            pressToolbarButton(button);
+                        }
+                    }}
+                />
+            </TooltipHost>
+        );
+    };
+
+    /**
+     * Render a built in or custom item of the toolbar.
+     * @param {ToolbarItem} item The item to render.
+     * @returns {React.ReactElement} The rendered item.
+     */
+    const renderToolbarItem = (item: ToolbarItem): React.ReactElement => {
+        if (item === 'codeLanguage') {
+            return (
+                <Dropdown
+                    key={item}
+                    ariaLabel={strings.codeLanguage}
+                    styles={{ root: { minWidth: 120, maxWidth: 120, marginRight: '5px' } }}
+                    placeholder={strings.codeLanguage}
+                    disabled={!isCodeBlockActive}
+                    options={codeLanguageOptions}
+                    selectedKey={isCodeBlockActive ? selectedCodeLanguage : null}
+                    onChange={onCodeLanguageChange}
+                />
+            );
+        }
+        if (item === 'heading') {
+            return <BlockTypeMenu key={item} selectedBlockType={selectedBlockType} onChange={onBlockTypeChange} />;
+        }
+        if (item === 'fontSize') {
+            return (
+                <Dropdown
+                    key={item}
+                    ariaLabel={strings.fontSize}
+                    styles={{ root: { minWidth: 80, maxWidth: 80, marginRight: '5px' } }}
+                    placeholder={strings.fontSize}
+                    options={fontSizeOptions}
+                    selectedKey={selectedFontSize}
+                    onChange={onFontSizeChange}
+                />
+            );
+        }
+        if (item === 'textColor' || item === 'highlightColor') {
+            const isTextColor = item === 'textColor';
+            return (
+                <ColorPickerMenu
+                    key={item}
+                    iconName={isTextColor ? 'FontColorA' : 'Highlight'}
+                    label={isTextColor ? strings.textColor : strings.highlightColor}
+                    swatches={isTextColor ? textStylePalette.textColors : textStylePalette.highlightColors}
+                    allowCustomColors={textStylePalette.allowCustomColors}
+                    selectedColor={isTextColor ? selectedTextColor : selectedHighlightColor}
+                    onChange={(color) => onColorChange(isTextColor ? textColorStylePrefix : highlightColorStylePrefix, color)}
+                />
+            );
+        }
+        if (typeof item === 'string') {
+            return renderToolbarButton(item, builtInToolbarButtons[item]);
+        }
+        return renderToolbarButton(item.key, {
+            iconName: item.iconName,
+            label: item.tooltip ?? item.key,
+            isActive: item.isActive?.(editorState),
+            onMouseDown: () => {
+                setEditorState(item.action(editorState));
                 setFocusIntoEditor();
-                break;
-            default:
-                keyToSet = 'paragraph';
-                break;
+            },
+        });
+    };
+
+    /**
+     * Handle key presses in the toolbar. The arrow keys move the focus in the direction of the editor,
+     * escape and alt + F10 move the focus back into the editor.
+     * @param {KeyboardEvent<HTMLElement>} event The occurred keyboard event.
+     */
+    const onToolbarKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+        // Key presses in the menus of toolbar items bubble through the react tree, but are handled by the menus.
+        if (!event.currentTarget.contains(event.target as Node)) {
+            return;
+        }
+        if (event.key === 'Escape' || (event.altKey && event.key === 'F10')) {
+            event.preventDefault();
+            setFocusIntoEditor();
+            return;
+        }
+        if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') {
+            return;
+        }
+        // The focus zone only knows the direction of the global theme, so the arrow keys are handled here.
+        event.preventDefault();
+        const items = Array.from(event.currentTarget.querySelectorAll<HTMLElement>('[data-is-focusable="true"]'));
+        const index = items.findIndex((item) => item.contains(document.activeElement));
+        const isForward = (event.key === 'ArrowRight') !== isRtl;
+        const nextItem = items[index + (isForward ? 1 : -1)];
+        if (nextItem) {
+            toolbarRef.current?.focusElement(nextItem);
         }
-        setSelectedHeading(keyToSet);
     };
 
     /** Handle changes in block type. */
@@ -270,6 +1627,13 @@ export const TextEditor: FunctionComponent<ITextEditor> = (props) => {
         setIsItalicActive(currentInlineStyle.has('ITALIC'));
         setIsUnderlineActive(currentInlineStyle.has('UNDERLINE'));
         setIsStrikeThroughActive(currentInlineStyle.has('STRIKETHROUGH'));
+        setIsInlineCodeActive(currentInlineStyle.has('CODE'));
+        setIsSuperscriptActive(currentInlineStyle.has('SUPERSCRIPT'));
+        setIsSubscriptActive(currentInlineStyle.has('SUBSCRIPT'));
+        setIsHighlightActive(currentInlineStyle.has('HIGHLIGHT'));
+        setSelectedFontSize(getPrefixedStyleValue(currentInlineStyle, fontSizeStylePrefix) ?? '');
+        setSelectedTextColor(getPrefixedStyleValue(currentInlineStyle, textColorStylePrefix));
+        setSelectedHighlightColor(getPrefixedStyleValue(currentInlineStyle, highlightColorStylePrefix));
         // Get the selection.
         const currentSelection = editorState.getSelection();
         // Get the anchor key.
@@ -281,309 +1645,222 @@ export const TextEditor: FunctionComponent<ITextEditor> = (props) => {
         const currentBlockType = currentContentBlock.getType();
         setIsUnorderedListActive(currentBlockType === 'unordered-list-item');
         setIsOrderedListActive(currentBlockType === 'ordered-list-item');
+        setIsCheckListActive(currentBlockType === checkableListItemBlockType);
         setIsBlockquoteActive(currentBlockType === 'blockquote');
         setIsCodeBlockActive(currentBlockType === 'code-block');
-        if (currentBlockType === 'unstyled') {
-            setSelectedHeading('paragraph');
-            return;
-        }
-        // Update the block type dropdown.
-        setSelectedHeading(currentBlockType);
+        setSelectedCodeLanguage(currentContentBlock.getData().get('language') ?? '');
+        setSelectedAlignment(getBlockAlignment(currentContentBlock));
+        // Update the block type menu.
+        setSelectedBlockType(currentBlockType);
     }, [editorState]);
 
     return (
-        <EditorContainer palette={theme.palette}>
-            <Dialog hidden={!isUrlInputVisible} title="Insert Link">
-                <TextField
-                    hidden={!isUrlInputVisible}
-                    value={urlValue}
-                    onKeyDown={(event: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-                        if (event.key === 'Enter') {
-                            addLink(editorState, setEditorState, urlValue);
-                            setIsUrlInputVisible(false);
-                            setUrlValue('');
-                            setFocusIntoEditor();
-                        }
-                    }}
-                    onChange={(_: FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string | undefined) => {
-                        if (newValue || newValue === '') {
-                            setUrlValue(newValue);
-                        }
-                    }}
-                />
-                <DialogFooter>
-                    <PrimaryButton
-                        text="Add Link"
-                        onClick={(e) => {
-                            e.preventDefault();
-                            addLink(editorState, setEditorState, urlValue);
-                            setIsUrlInputVisible(false);
-                            setUrlValue('');
-                            setFocusIntoEditor();
-                        }}
-                    />
-                    <DefaultButton
-                        text="Abort"
-                        onClick={() => {
-                            setIsUrlInputVisible(false);
-                            setUrlValue('');
-                        }}
-                    />
-                </DialogFooter>
-            </Dialog>
-            <ToolbarContainer palette={theme.palette}>
-                <ControlSection>
-                    <Dropdown styles={{ root: { minWidth: 150, maxWidth: 150 } }} options={headingOptions} selectedKey={selectedHeading} onChange={onHeadingChange} />
-                </ControlSection>
-                <ControlSection>
-                    <TooltipHost
-                        id={boldTooltipId}
-                        content={
-                            <>
-                                <div>Ctrl + B</div>
-                                <div>CMD + B</div>
-                            </>
-                        }
-                    >
-                        <IconButton
-                            aria-describedby={boldTooltipId}
-                            styles={{
-                                root: {
-                                    backgroundColor: isBoldActive ? theme.palette.neutralQuaternary : 'unset',
-                                    marginRight: '5px',
-                                    color: theme.palette.black,
-                                },
+        <TextDirectionProvider dir={props.dir} className={editorDirectionStyle}>
+            <TextEditorStringsContext.Provider value={strings}>
+                <EditorContainer palette={theme.palette}>
+                    <Dialog hidden={!isUrlInputVisible} title={editedLinkRange ? strings.editLinkTitle : strings.insertLinkTitle}>
+                        <TextField
+                            label={strings.urlLabel}
+                            hidden={!isUrlInputVisible}
+                            value={urlValue}
+                            errorMessage={urlErrorMessage}
+                            onKeyDown={(event: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+                                if (event.key === 'Enter') {
+                                    onAddLink();
+                                }
                             }}
-                            iconProps={{ iconName: 'Bold' }}
-                            onMouseDown={(event) => {
-                                event.preventDefault();
-                                onBoldMouseDown();
+                            onChange={(_: FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string | undefined) => {
+                                if (newValue || newValue === '') {
+                                    setUrlValue(newValue);
+                                    setUrlErrorMessage(undefined);
+                                }
                             }}
                         />
-                    </TooltipHost>
-                    <TooltipHost
-                        id={italicTooltipId}
-                        content={
-                            <>
-                                <div>Ctrl + I</div>
-                                <div>CMD + I</div>
-                            </>
-                        }
-                    >
-                        <IconButton
-                            styles={{
-                                root: {
-                                    backgroundColor: isItalicActive ? theme.palette.neutralQuaternary : 'unset',
-                                    marginRight: '5px',
-                                    color: theme.palette.black,
-                                },
-                            }}
-                            iconProps={{ iconName: 'Italic' }}
-                            onMouseDown={(event) => {
-                                event.preventDefault();
-                                onItalicMouseDown();
+                        <TextField
+                            label={strings.linkTextLabel}
+                            value={linkTextValue}
+                            placeholder={urlValue}
+                            onChange={(_: FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string | undefined) => {
+                                if (newValue || newValue === '') {
+                                    setLinkTextValue(newValue);
+                                }
                             }}
                         />
-                    </TooltipHost>
-                    <TooltipHost
-                        id={underlineTooltipId}
-                        content={
-                            <>
-                                <div>Ctrl + U</div>
-                                <div>CMD + U</div>
-                            </>
-                        }
-                    >
-                        <IconButton
-                            styles={{
-                                root: {
-                                    backgroundColor: isUnderlineActive ? theme.palette.neutralQuaternary : 'unset',
-                                    marginRight: '5px',
-                                    color: theme.palette.black,
-                                },
+                        <TextField
+                            label={strings.linkTitleLabel}
+                            value={linkTitleValue}
+                            onChange={(_: FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string | undefined) => {
+                                if (newValue || newValue === '') {
+                                    setLinkTitleValue(newValue);
+                                }
                             }}
-                            iconProps={{ iconName: 'Underline' }}
-                            onMouseDown={(event) => {
-                                event.preventDefault();
-                                onUnderlineMouseDown();
+                        />
+                        <Dropdown
+                            label={strings.linkTargetLabel}
+                            options={linkTargetOptions}
+                            selectedKey={linkTargetValue}
+                            onChange={(_: FormEvent<HTMLDivElement>, option?: IDropdownOption) => {
+                                if (option) {
+                                    setLinkTargetValue(option.key as string);
+                                }
                             }}
                         />
-                    </TooltipHost>
-                    <IconButton
-                        styles={{
-                            root: {
-                                backgroundColor: isStrikeThroughActive ? theme.palette.neutralQuaternary : 'unset',
-                                marginRight: '5px',
-                                color: theme.palette.black,
-                            },
-                        }}
-                        iconProps={{ iconName: 'Strikethrough' }}
-                        onMouseDown={(event) => {
-                            event.preventDefault();
-                            onStrikeThroughMouseDown();
-                        }}
-                    />
-                </ControlSection>
-                <ControlSection>
-                    <IconButton
-                        styles={{
-                            root: {
-                                backgroundColor: isUnorderedListActive ? theme.palette.neutralQuaternary : 'unset',
-                                marginRight: '5px',
-                                color: theme.palette.black,
-                            },
-                        }}
-                        iconProps={{ iconName: 'BulletedList' }}
-                        onMouseDown={(event) => {
-                            event.preventDefault();
-                            applyBlockStyle(editorState, setEditorState, 'unordered-list-item');
-                        }}
-                    />
-                    <IconButton
-                        styles={{
-                            root: {
-                                backgroundColor: isOrderedListActive ? theme.palette.neutralQuaternary : 'unset',
-                                marginRight: '5px',
-                                color: theme.palette.black,
-                            },
-                        }}
-                        iconProps={{ iconName: 'NumberedList' }}
-                        onMouseDown={(event) => {
-                            event.preventDefault();
-                            applyBlockStyle(editorState, setEditorState, 'ordered-list-item');
-                        }}
-                    />
-                    <IconButton
-                        styles={{
-                            root: { marginRight: '5px', color: theme.palette.black },
-                        }}
-                        iconProps={{ iconName: 'DecreaseIndentLegacy' }}
-                        onMouseDown={(event) => {
-                            event.preventDefault();
-                            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                            const e: any = { preventDefault: () => null, shiftKey: true };
-                            setEditorState(RichUtils.onTab(e, editorState, maxIntend));
-                        }}
-                    />
-                    <IconButton
-                        styles={{
-                            root: { marginRight: '5px', color: theme.palette.black },
-                        }}
-                        iconProps={{ iconName: 'IncreaseIndentLegacy' }}
-                        onMouseDown={(event) => {
-                            event.preventDefault();
-                            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                            const e: any = { preventDefault: () => null };
-                            setEditorState(RichUtils.onTab(e, editorState, maxIntend));
-                        }}
-                    />
-                </ControlSection>
-                <ControlSection>
-                    <IconButton
-                        styles={{
-                            root: {
-                                backgroundColor: isBlockquoteActive ? theme.palette.neutralQuaternary : 'unset',
-                                marginRight: '5px',
-                                color: theme.palette.black,
-                            },
-                        }}
-                        iconProps={{ iconName: 'RightDoubleQuote' }}
-                        onMouseDown={(event) => {
-                            event.preventDefault();
-                            applyBlockStyle(editorState, setEditorState, 'blockquote');
-                        }}
-                    />
-                    <IconButton
-                        styles={{
-                            root: {
-                                backgroundColor: isCodeBlockActive ? theme.palette.neutralQuaternary : 'unset',
-                                marginRight: '5px',
-                                color: theme.palette.black,
-                            },
-                        }}
-                        iconProps={{ iconName: 'Code' }}
-                        onMouseDown={(event) => {
-                            event.preventDefault();
-                            applyBlockStyle(editorState, setEditorState, 'code-block');
-                        }}
-                    />
-                </ControlSection>
-                <ControlSection>
-                    <IconButton
-                        styles={{
-                            root: { marginRight: '5px', color: theme.palette.black },
-                        }}
-                        iconProps={{ iconName: 'AddLink' }}
-                        onMouseDown={(event) => {
-                            event.preventDefault();
-                            setIsUrlInputVisible(true);
-                        }}
-                    />
-                    <IconButton
-                        styles={{
-                            root: { marginRight: '5px', color: theme.palette.black },
-                        }}
-                        iconProps={{ iconName: 'RemoveLink' }}
-                        onMouseDown={(event) => {
-                            event.preventDefault();
-                            removeLink(editorState, setEditorState);
-                        }}
-                    />
-                </ControlSection>
-                <ControlSection>
-                    <TooltipHost
-                        id={undoTooltipId}
-                        content={
-                            <>
-                                <div>Ctrl + Z</div>
-                                <div>CMD + Z</div>
-                            </>
-                        }
-                    >
-                        <IconButton
-                            styles={{
-                                root: { marginRight: '5px', color: theme.palette.black },
+                        <TextField
+                            label={strings.linkRelLabel}
+                            value={linkRelValue}
+                            onChange={(_: FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string | undefined) => {
+                                if (newValue || newValue === '') {
+                                    setLinkRelValue(newValue);
+                                }
                             }}
-                            iconProps={{ iconName: 'Undo' }}
-                            onMouseDown={(event) => {
-                                event.preventDefault();
-                                setEditorState(EditorState.undo(editorState));
+                        />
+                        <DialogFooter>
+                            <PrimaryButton
+                                text={editedLinkRange ? strings.saveLink : strings.addLink}
+                                onClick={(e) => {
+                                    e.preventDefault();
+                                    onAddLink();
+                                }}
+                            />
+                            <DefaultButton text={strings.abort} onClick={closeLinkDialog} />
+                        </DialogFooter>
+                    </Dialog>
+                    <Dialog hidden={!isImageInputVisible} title={strings.insertImageTitle}>
+                        <TextField
+                            label={strings.urlLabel}
+                            value={imageSrcValue}
+                            errorMessage={imageSrcErrorMessage}
+                            onChange={(_: FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string | undefined) => {
+                                if (newValue || newValue === '') {
+                                    setImageSrcValue(newValue);
+                                    setImageSrcErrorMessage(undefined);
+                                }
                             }}
                         />
-                    </TooltipHost>
-                    <TooltipHost
-                        id={redoTooltipId}
-                        content={
-                            <>
-                                <div>Ctrl + Y</div>
-                                <div>CMD + Shift + Z</div>
-                            </>
-                        }
-                    >
-                        <IconButton
-                            styles={{
-                                root: { marginRight: '5px', color: theme.palette.black },
+                        <TextField
+                            label={strings.imageAltLabel}
+                            value={imageAltValue}
+                            onKeyDown={(event: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+                                if (event.key === 'Enter') {
+                                    onAddImage();
+                                }
                             }}
-                            iconProps={{ iconName: 'Redo' }}
-                            onMouseDown={(event) => {
-                                event.preventDefault();
-                                setEditorState(EditorState.redo(editorState));
+                            onChange={(_: FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string | undefined) => {
+                                if (newValue || newValue === '') {
+                                    setImageAltValue(newValue);
+                                }
                             }}
                         />
-                    </TooltipHost>
-                </ControlSection>
-            </ToolbarContainer>
-            <EditorTextfieldWrapper onClick={setFocusIntoEditor}>
-                <Editor
-                    handleReturn={handleReturn}
-                    ref={editorRef as MutableRefObject<Editor>}
-                    editorState={editorState}
-                    onChange={setEditorState}
-                    handleKeyCommand={handleKeyCommand}
-                    onTab={onTab}
-                    blockStyleFn={blockStyleFn}
-                />
-            </EditorTextfieldWrapper>
-        </EditorContainer>
+                        <DialogFooter>
+                            <PrimaryButton
+                                text={strings.addImage}
+                                onClick={(e) => {
+                                    e.preventDefault();
+                                    onAddImage();
+                                }}
+                            />
+                            <DefaultButton
+                                text={strings.abort}
+                                onClick={() => {
+                                    setIsImageInputVisible(false);
+                                    setImageSrcValue('');
+                                    setImageAltValue('');
+                                    setImageSrcErrorMessage(undefined);
+                                }}
+                            />
+                        </DialogFooter>
+                    </Dialog>
+                    {!props.readOnly && (
+                        <ToolbarContainer
+                            palette={theme.palette}
+                            componentRef={toolbarRef}
+                            direction={FocusZoneDirection.horizontal}
+                            role="toolbar"
+                            aria-label={strings.toolbarLabel}
+                            onKeyDown={onToolbarKeyDown}
+                        >
+                            {(props.toolbar ?? defaultToolbar).map((group) => (
+                                <ControlSection key={group.key}>{group.items.map(renderToolbarItem)}</ControlSection>
+                            ))}
+                        </ToolbarContainer>
+                    )}
+                    {isSearchPanelVisible && !props.readOnly && (
+                        <SearchPanel
+                            isReplaceVisible={isReplaceVisible}
+                            query={searchQuery}
+                            replacement={replacementValue}
+                            options={searchOptions}
+                            matchCount={searchMatches.length}
+                            currentMatchIndex={currentMatchIndex}
+                            isQueryInvalid={!!searchQuery && !searchRegExp}
+                            searchFieldRef={searchFieldRef}
+                            onQueryChange={setSearchQuery}
+                            onReplacementChange={setReplacementValue}
+                            onOptionsChange={setSearchOptions}
+                            onNext={onNextSearchMatch}
+                            onPrevious={onPreviousSearchMatch}
+                            onReplace={onReplaceSearchMatch}
+                            onReplaceAll={onReplaceAllSearchMatches}
+                            onToggleReplace={() => setIsReplaceVisible(!isReplaceVisible)}
+                            onClose={closeSearchPanel}
+                        />
+                    )}
+                    <EditorTextfieldWrapper ref={editorWrapperRef} onClick={setFocusIntoEditor}>
+                        <DraftLinkContext.Provider value={linkContext}>
+                            <DraftSearchMatchContext.Provider value={searchMatchContext}>
+                                {/* Draft js does not re-render unchanged text with new custom styles, so the editor is remounted when the palette turns dark or light. */}
+                                <Editor
+                                    key={isDarkTheme ? 'dark' : 'light'}
+                                    handleReturn={handleReturn}
+                                    ref={editorRef as MutableRefObject<Editor>}
+                                    editorState={editorState}
+                                    onChange={onEditorChange}
+                                    handleBeforeInput={handleBeforeInput}
+                                    handlePastedText={handlePastedText}
+                                    keyBindingFn={keyBindingFn}
+                                    customStyleMap={customStyleMap}
+                                    customStyleFn={customStyleFn}
+                                    handleKeyCommand={handleKeyCommand}
+                                    onTab={onTab}
+                                    blockStyleFn={blockStyleFn}
+                                    blockRendererFn={blockRendererFn}
+                                    blockRenderMap={blockRenderMap}
+                                    readOnly={props.readOnly || isAtomicBlockEditing}
+                                    ariaDescribedBy={toolbarHint ? toolbarHintId : undefined}
+                                    textDirectionality={props.dir && draftTextDirectionalities[props.dir]}
+                                    handlePastedFiles={(files: Blob[]) => insertImageFiles(files)}
+                                    handleDroppedFiles={(selection: SelectionState, files: Blob[]) => insertImageFiles(files, selection)}
+                                />
+                            </DraftSearchMatchContext.Provider>
+                        </DraftLinkContext.Provider>
+                    </EditorTextfieldWrapper>
+                    {toolbarHint && (
+                        <span id={toolbarHintId} className={hiddenTextStyle}>
+                            {toolbarHint}
+                        </span>
+                    )}
+                    <Announced message={announcement} />
+                    {props.showStatusBar && (
+                        <StatusBar
+                            statistics={contentStatistics}
+                            selectionStatistics={getSelectionStatistics(editorState)}
+                            exportedLength={exportedContent.length}
+                            contentTypeName={getContentFormat(props.contentType)?.displayName}
+                            maxLength={props.maxLength}
+                            limitState={lengthLimitState}
+                        />
+                    )}
+                    {isMentionSuggestionsVisible && !props.readOnly && (
+                        <MentionSuggestions
+                            target={mentionTarget ?? editorWrapperRef}
+                            items={mentionSuggestions}
+                            selectedIndex={selectedMentionIndex}
+                            onSelect={selectMention}
+                            onDismiss={closeMentionSuggestions}
+                        />
+                    )}
+                </EditorContainer>
+            </TextEditorStringsContext.Provider>
+        </TextDirectionProvider>
     );
 };
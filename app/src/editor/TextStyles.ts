@@ -0,0 +1,218 @@
+import { CSSProperties } from 'react';
+import { getColorFromString, IPalette } from '@fluentui/react';
+import { DraftInlineStyle, EditorState } from 'draft-js';
+import { RenderConfig } from 'draft-js-export-html';
+import { ITextEditorStrings } from './Strings';
+
+/** The prefix of the inline styles that color the text, followed by the hex color, e.g. `COLOR-#930001`. */
+export const textColorStylePrefix = 'COLOR-';
+
+/** The prefix of the inline styles that highlight the text with a background color, followed by the hex color, e.g. `BGCOLOR-#fff100`. */
+export const highlightColorStylePrefix = 'BGCOLOR-';
+
+/** The prefix of the inline styles that set the font size, followed by the size in pixels, e.g. `FONTSIZE-20`. */
+export const fontSizeStylePrefix = 'FONTSIZE-';
+
+/** A color the text style pickers offer. */
+export interface IColorSwatch {
+    /** The name of the color, displayed as tooltip and accessible label. Either the localized name or a function that picks it from the texts of the editor. */
+    label: string | ((strings: ITextEditorStrings) => string);
+    /** The hex color that is stored and exported, e.g. `#930001`. */
+    color: string;
+    /** The hex color that is displayed instead on dark palettes. Defaults to the color. */
+    darkColor?: string;
+}
+
+/** The colors and font sizes the text style pickers offer. */
+export interface ITextStylePalette {
+    /** The colors of the text color picker. */
+    textColors: IColorSwatch[];
+    /** The colors of the highlight color picker. */
+    highlightColors: IColorSwatch[];
+    /** Whether colors that are not in the palette can be picked. */
+    allowCustomColors: boolean;
+    /** The font sizes in pixels of the font size selector. */
+    fontSizes: number[];
+}
+
+/** The current text style palette. */
+let textStylePalette: ITextStylePalette = {
+    textColors: [
+        { label: (strings) => strings.colorRed, color: '#c50f1f', darkColor: '#f1707b' },
+        { label: (strings) => strings.colorOrange, color: '#ca5010', darkColor: '#f7a36b' },
+        { label: (strings) => strings.colorGreen, color: '#107c10', darkColor: '#6ccb5f' },
+        { label: (strings) => strings.colorBlue, color: '#0f6cbd', darkColor: '#62abf5' },
+        { label: (strings) => strings.colorPurple, color: '#5c2e91', darkColor: '#b696e2' },
+        { label: (strings) => strings.colorGray, color: '#616161', darkColor: '#adadad' },
+    ],
+    highlightColors: [
+        { label: (strings) => strings.colorYellow, color: '#fff100', darkColor: '#6b6200' },
+        { label: (strings) => strings.colorGreen, color: '#a9f0a9', darkColor: '#2c5b2c' },
+        { label: (strings) => strings.colorBlue, color: '#a6d8ff', darkColor: '#1f4a6e' },
+        { label: (strings) => strings.colorPink, color: '#ffb3de', darkColor: '#6e2a51' },
+        { label: (strings) => strings.colorGray, color: '#d6d6d6', darkColor: '#4d4d4d' },
+    ],
+    allowCustomColors: true,
+    fontSizes: [10, 12, 14, 16, 18, 20, 24, 28, 32, 40],
+};
+
+/** The css properties of the html import that are turned into text styles. */
+const htmlTextStyleProperties = ['color', 'background-color', 'font-size'];
+
+/**
+ * Override parts of the text style palette.
+ * @param {Partial<ITextStylePalette>} palette The parts of the palette to override.
+ */
+export const configureTextStyles = (palette: Partial<ITextStylePalette>) => {
+    textStylePalette = { ...textStylePalette, ...palette };
+};
+
+/**
+ * Get the current text style palette.
+ * @returns {ITextStylePalette} The current text style palette.
+ */
+export const getTextStylePalette = (): ITextStylePalette => {
+    return textStylePalette;
+};
+
+/**
+ * Check whether a fluent ui palette is dark, i.e. its background color is darker than its text color.
+ * @param {IPalette} palette The palette of the theme.
+ * @returns {boolean} Whether the palette is dark.
+ */
+export const isDarkPalette = (palette: IPalette): boolean => {
+    const background = getColorFromString(palette.white);
+    const text = getColorFromString(palette.black);
+    return !!background && !!text && background.v < text.v;
+};
+
+/**
+ * Normalize a css color to the lower case hex color the inline styles store.
+ * @param {string} color The css color, e.g. `rgb(147, 0, 1)` or `#930001`.
+ * @returns {string | undefined} The hex color or undefined if the color is invalid or transparent.
+ */
+export const toHexColor = (color: string): string | undefined => {
+    const parsedColor = getColorFromString(color.trim());
+    return parsedColor && parsedColor.a !== 0 ? `#${parsedColor.hex.toLowerCase()}` : undefined;
+};
+
+/**
+ * Get the localized name of a color swatch.
+ * @param {IColorSwatch} swatch The color swatch.
+ * @param {ITextEditorStrings} strings The texts of the editor.
+ * @returns {string} The name of the color.
+ */
+export const getSwatchLabel = (swatch: IColorSwatch, strings: ITextEditorStrings): string => {
+    return typeof swatch.label === 'function' ? swatch.label(strings) : swatch.label;
+};
+
+/**
+ * Get the color to display for a stored color, using the dark color of the matching swatch on dark palettes.
+ * @param {string} color The stored hex color.
+ * @param {IColorSwatch[]} swatches The swatches that may contain the color.
+ * @param {boolean} isDark Whether the palette of the theme is dark.
+ * @returns {string} The color to display.
+ */
+export const getDisplayColor = (color: string, swatches: IColorSwatch[], isDark: boolean): string => {
+    const swatch = isDark ? swatches.find((colorSwatch) => toHexColor(colorSwatch.color) === color) : undefined;
+    return swatch?.darkColor ?? color;
+};
+
+/**
+ * Get the value of the first inline style with the given prefix.
+ * @param {DraftInlineStyle} inlineStyle The inline styles of a text range.
+ * @param {string} prefix The prefix of the inline style.
+ * @returns {string | undefined} The value after the prefix or undefined if no inline style has the prefix.
+ */
+export const getPrefixedStyleValue = (inlineStyle: DraftInlineStyle, prefix: string): string | undefined => {
+    return inlineStyle.find((styleName) => !!styleName?.startsWith(prefix))?.slice(prefix.length);
+};
+
+/**
+ * Get the value of the inline style with the given prefix at the selection.
+ * @param {EditorState} editorState The current editor state.
+ * @param {string} prefix The prefix of the inline style.
+ * @returns {string | undefined} The value after the prefix or undefined if the text at the selection has no such style.
+ */
+export const getSelectedStyleValue = (editorState: EditorState, prefix: string): string | undefined => {
+    return getPrefixedStyleValue(editorState.getCurrentInlineStyle(), prefix);
+};
+
+/**
+ * Get the css properties of the text styles of a text range, for the editor and the viewer.
+ * @param {DraftInlineStyle} inlineStyle The inline styles of the text range.
+ * @param {boolean} isDark Whether the palette of the theme is dark, so that the dark colors of the swatches are displayed.
+ * @returns {CSSProperties} The css properties, empty if the range has no text styles.
+ */
+export const getTextStyleProperties = (inlineStyle: DraftInlineStyle, isDark: boolean): CSSProperties => {
+    const textColor = getPrefixedStyleValue(inlineStyle, textColorStylePrefix);
+    const highlightColor = getPrefixedStyleValue(inlineStyle, highlightColorStylePrefix);
+    const fontSize = getPrefixedStyleValue(inlineStyle, fontSizeStylePrefix);
+    return {
+        ...(textColor ? { color: getDisplayColor(textColor, textStylePalette.textColors, isDark) } : {}),
+        ...(highlightColor ? { backgroundColor: getDisplayColor(highlightColor, textStylePalette.highlightColors, isDark) } : {}),
+        ...(fontSize ? { fontSize: `${fontSize}px` } : {}),
+    };
+};
+
+/**
+ * Get the html render config of the text styles of an exported text range. The stored colors are exported, independent of the theme.
+ * @param {DraftInlineStyle} inlineStyle The inline styles of the text range.
+ * @returns {RenderConfig | undefined} The render config of a span with the text styles or undefined if the range has no text styles.
+ */
+export const getHtmlTextStyleRenderConfig = (inlineStyle: DraftInlineStyle): RenderConfig | undefined => {
+    const style = getTextStyleProperties(inlineStyle, false);
+    return Object.keys(style).length ? { element: 'span', style } : undefined;
+};
+
+/**
+ * Move the text style properties of all elements of an imported html string into nested spans with one property each,
+ * since the html import only applies one inline style per inline element and none of block elements.
+ * @param {string} htmlString The html string to process.
+ * @returns {string} The html string with text styles on spans only.
+ */
+export const splitHtmlTextStyles = (htmlString: string): string => {
+    if (!/color|font-size/i.test(htmlString)) {
+        return htmlString;
+    }
+    const document = new DOMParser().parseFromString(htmlString, 'text/html');
+    document.body.querySelectorAll<HTMLElement>('[style]').forEach((element) => {
+        const properties = htmlTextStyleProperties.filter((property) => element.style.getPropertyValue(property));
+        if (!properties.length || (element.tagName === 'SPAN' && properties.length === 1)) {
+            return;
+        }
+        properties.forEach((property) => {
+            const span = document.createElement('span');
+            span.style.setProperty(property, element.style.getPropertyValue(property));
+            element.style.removeProperty(property);
+            span.append(...Array.from(element.childNodes));
+            element.append(span);
+        });
+    });
+    return document.body.innerHTML;
+};
+
+/**
+ * Get the text style of an imported html span, which holds one text style property after splitting the text styles.
+ * @param {Element} element The imported html element.
+ * @returns {string | undefined} The prefixed inline style or undefined if the element has no valid text style.
+ */
+export const getHtmlTextStyle = (element: Element): string | undefined => {
+    const style = (element as HTMLElement).style;
+    if (element.tagName !== 'SPAN' || !style) {
+        return undefined;
+    }
+    const textColor = style.color ? toHexColor(style.color) : undefined;
+    if (textColor) {
+        return textColorStylePrefix + textColor;
+    }
+    const highlightColor = style.backgroundColor ? toHexColor(style.backgroundColor) : undefined;
+    if (highlightColor) {
+        return highlightColorStylePrefix + highlightColor;
+    }
+    const fontSize = style.fontSize.match(/^(\d+(?:\.\d+)?)(px|pt)$/);
+    if (fontSize) {
+        return fontSizeStylePrefix + Math.round(Number(fontSize[1]) * (fontSize[2] === 'pt' ? 4 / 3 : 1));
+    }
+    return undefined;
+};
@@ -0,0 +1,84 @@
+import { EditorState } from 'draft-js';
+
+/** The identifiers of the toolbar items the text editor provides. */
+export type BuiltInToolbarItemId =
+    | 'heading'
+    | 'bold'
+    | 'italic'
+    | 'underline'
+    | 'strikethrough'
+    | 'inlineCode'
+    | 'superscript'
+    | 'subscript'
+    | 'highlight'
+    | 'clearFormatting'
+    | 'fontSize'
+    | 'textColor'
+    | 'highlightColor'
+    | 'unorderedList'
+    | 'orderedList'
+    | 'checkList'
+    | 'outdent'
+    | 'indent'
+    | 'alignLeft'
+    | 'alignCenter'
+    | 'alignRight'
+    | 'alignJustify'
+    | 'blockquote'
+    | 'codeBlock'
+    | 'codeLanguage'
+    | 'table'
+    | 'link'
+    | 'removeLink'
+    | 'image'
+    | 'undo'
+    | 'redo';
+
+/** A custom toolbar button. */
+export interface ICustomToolbarItem {
+    /** The unique key of the item. */
+    key: string;
+    /** The name of the fluent ui icon to display. */
+    iconName: string;
+    /** The tooltip to display when hovering the button, also used as its accessible label. Defaults to the key. */
+    tooltip?: string;
+    /** Whether the button is displayed as active for the given editor state. */
+    isActive?: (editorState: EditorState) => boolean;
+    /** Create the new editor state when the button is pressed. */
+    action: (editorState: EditorState) => EditorState;
+}
+
+/** An item of the toolbar, either the identifier of a built in item or a custom button. */
+export type ToolbarItem = BuiltInToolbarItemId | ICustomToolbarItem;
+
+/** A group of toolbar items that are displayed next to each other. */
+export interface IToolbarGroup {
+    /** The unique key of the group. */
+    key: string;
+    /** The items of the group in display order. */
+    items: ToolbarItem[];
+}
+
+/** The toolbar the text editor displays if no custom toolbar is configured. */
+export const defaultToolbar: IToolbarGroup[] = [
+    { key: 'heading', items: ['heading'] },
+    { key: 'inline', items: ['bold', 'italic', 'underline', 'strikethrough', 'inlineCode', 'superscript', 'subscript', 'highlight', 'clearFormatting'] },
+    { key: 'textStyle', items: ['fontSize', 'textColor', 'highlightColor'] },
+    { key: 'list', items: ['unorderedList', 'orderedList', 'checkList', 'outdent', 'indent'] },
+    { key: 'align', items: ['alignLeft', 'alignCenter', 'alignRight', 'alignJustify'] },
+    { key: 'block', items: ['blockquote', 'codeBlock', 'codeLanguage', 'table'] },
+    { key: 'insert', items: ['link', 'removeLink', 'image'] },
+    { key: 'history', items: ['undo', 'redo'] },
+];
+
+/**
+ * Remove the given built in items from a toolbar. Groups without remaining items are removed as well.
+ * @param {IToolbarGroup[]} toolbar The toolbar to remove the items from.
+ * @param {BuiltInToolbarItemId[]} itemIds The identifiers of the items to remove.
+ * @returns {IToolbarGroup[]} The toolbar without the removed items.
+ */
+export const removeToolbarItems = (toolbar: IToolbarGroup[], itemIds: BuiltInToolbarItemId[]): IToolbarGroup[] => {
+    return toolbar
+        .map((group) => ({ ...group, items: group.items.filter((item) => typeof item !== 'string' || !itemIds.includes(item)) }))
+        .filter((group) => group.items.length > 0);
+};